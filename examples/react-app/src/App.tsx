@@ -9,8 +9,12 @@ import FetchDemo from './components/FetchDemo';
 import AdvancedDemo from './components/AdvancedDemo';
 import AsyncSignalDemo from './components/AsyncSignalDemo';
 import EffectMonadDemo from './components/EffectMonadDemo';
-import SignalDevTool, { SignalDevToolAPI } from './components/SignalDevTool';
+import SignalDevTool from './components/SignalDevTool';
 import ErrorBoundary from './components/ErrorBoundary';
+import { signal } from 'resig.js';
+
+// Created after the devtools connected, so it shows up in the panel
+const testSignal = signal(0, { name: 'test-signal' });
 
 function App() {
   return (
@@ -89,12 +93,11 @@ function App() {
       <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded">
         <button
           onClick={() => {
-            SignalDevToolAPI.registerSignal('test-signal', Math.random(), 'signal');
-            SignalDevToolAPI.executeEffect('test-effect', 'Manual test event triggered');
+            testSignal.update((n) => n + 1);
           }}
           className="bg-yellow-500 text-white px-4 py-2 rounded hover:bg-yellow-600"
         >
-          🧪 Test DevTool (Add Events)
+          🧪 Test DevTool (Update test-signal)
         </button>
       </div>
 
@@ -1,4 +1,4 @@
-import { use, fetch$, computed } from 'resig.js';
+import { use, fetch$, useComputed } from 'resig.js';
 
 // Mock API functions for demonstration
 const mockApi = {
@@ -27,8 +27,8 @@ function FetchSignalDemo() {
   // Fetch posts data - automatic dependency tracking
   const postsFetch = fetch$(() => mockApi.getPosts(userId.value()));
 
-  // Computed signals for display - NO dependency arrays!
-  const userStatus = computed(() => {
+  // Computed values for display - NO dependency arrays!
+  const userStatus = useComputed(() => {
     const state = userFetch.value();
     if (state.loading) return 'Loading user...';
     if (state.error) return `Error: ${state.error.message}`;
@@ -36,7 +36,7 @@ function FetchSignalDemo() {
     return 'No data';
   });
 
-  const postsStatus = computed(() => {
+  const postsStatus = useComputed(() => {
     const state = postsFetch.value();
     if (state.loading) return 'Loading posts...';
     if (state.error) return `Error: ${state.error.message}`;
@@ -87,10 +87,10 @@ function FetchSignalDemo() {
       <div>
         <h3>Fetch Status</h3>
         <div className={`status ${userFetch.value().loading ? 'loading' : userFetch.value().error ? 'error' : 'success'}`}>
-          User: {userStatus.value()}
+          User: {userStatus}
         </div>
         <div className={`status ${postsFetch.value().loading ? 'loading' : postsFetch.value().error ? 'error' : 'success'}`}>
-          Posts: {postsStatus.value()}
+          Posts: {postsStatus}
         </div>
       </div>
       
@@ -1,184 +1,147 @@
-import React from 'react';
-import { useSignal, useComputed } from '../../../../src/react/hooks';
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  connect,
+  DevtoolsEvent,
+  EntityKind,
+  memoryTransport,
+} from 'resig.js/devtools';
 
-interface SignalEvent {
-  id: string;
-  timestamp: number;
-  type: 'signal_created' | 'signal_updated' | 'signal_accessed' | 'effect_executed' | 'computed_evaluated';
-  signalName: string;
-  oldValue?: any;
-  newValue?: any;
-  details?: string;
-}
+// Connected as soon as this module loads, so every signal, effect, fetch and
+// machine the app creates afterwards shows up here
+export const devtoolsSink = memoryTransport(500);
+connect(devtoolsSink);
 
-interface SignalState {
+interface EntityState {
+  id: number;
   name: string;
-  value: any;
-  type: 'signal' | 'computed' | 'effect' | 'async';
+  kind: EntityKind;
+  value: unknown;
+  error?: unknown;
   lastUpdated: number;
-  accessCount: number;
+  updates: number;
+  disposed: boolean;
 }
 
-// Global signal registry for dev tools
-const globalSignalRegistry = new Map<string, SignalState>();
-const globalEventLog: SignalEvent[] = [];
-
-// Add some initial demo data
-setTimeout(() => {
-  globalEventLog.push({
-    id: 'demo-1',
-    timestamp: Date.now() - 5000,
-    type: 'signal_created',
-    signalName: 'demo-signal',
-    newValue: 'Hello DevTool!',
-    details: 'Demo signal created to show DevTool functionality',
-  });
-
-  globalSignalRegistry.set('demo-signal', {
-    name: 'demo-signal',
-    value: 'Hello DevTool!',
-    type: 'signal',
-    lastUpdated: Date.now() - 5000,
-    accessCount: 3,
-  });
-}, 100);
-
-// DevTool API for signals to register themselves
-export const SignalDevToolAPI = {
-  registerSignal: (name: string, value: any, type: 'signal' | 'computed' | 'effect' | 'async') => {
-    // Use setTimeout to avoid render-time state updates
-    setTimeout(() => {
-      globalSignalRegistry.set(name, {
-        name,
-        value,
-        type,
-        lastUpdated: Date.now(),
-        accessCount: 0,
-      });
-
-      globalEventLog.push({
-        id: Math.random().toString(36),
-        timestamp: Date.now(),
-        type: 'signal_created',
-        signalName: name,
-        newValue: value,
-        details: `Created ${type} signal: ${name}`,
-      });
-    }, 0);
-  },
-
-  updateSignal: (name: string, oldValue: any, newValue: any) => {
-    setTimeout(() => {
-      const signal = globalSignalRegistry.get(name);
-      if (signal) {
-        signal.value = newValue;
-        signal.lastUpdated = Date.now();
-
-        globalEventLog.push({
-          id: Math.random().toString(36),
-          timestamp: Date.now(),
-          type: 'signal_updated',
-          signalName: name,
-          oldValue,
-          newValue,
-          details: `Updated ${signal.type}: ${name}`,
-        });
-      }
-    }, 0);
-  },
-
-  accessSignal: (name: string) => {
-    setTimeout(() => {
-      const signal = globalSignalRegistry.get(name);
-      if (signal) {
-        signal.accessCount++;
-
-        globalEventLog.push({
-          id: Math.random().toString(36),
-          timestamp: Date.now(),
-          type: 'signal_accessed',
-          signalName: name,
-          details: `Accessed ${signal.type}: ${name} (count: ${signal.accessCount})`,
-        });
-      }
-    }, 0);
-  },
-
-  executeEffect: (name: string, details: string) => {
-    setTimeout(() => {
-      globalEventLog.push({
-        id: Math.random().toString(36),
-        timestamp: Date.now(),
-        type: 'effect_executed',
-        signalName: name,
-        details: `Effect executed: ${details}`,
+// Folds the event stream into the current state of every entity
+const entitiesOf = (events: readonly DevtoolsEvent[]) => {
+  const entities = new Map<number, EntityState>();
+  events.forEach((event) => {
+    if (event.type === 'created') {
+      entities.set(event.id, {
+        id: event.id,
+        name: event.name ?? `${event.kind}#${event.id}`,
+        kind: event.kind,
+        value: event.value,
+        lastUpdated: event.time,
+        updates: 0,
+        disposed: false,
       });
-    }, 0);
-  },
-
-  evaluateComputed: (name: string, result: any) => {
-    setTimeout(() => {
-      globalEventLog.push({
-        id: Math.random().toString(36),
-        timestamp: Date.now(),
-        type: 'computed_evaluated',
-        signalName: name,
-        newValue: result,
-        details: `Computed evaluated: ${name}`,
-      });
-    }, 0);
-  },
-
-  getEvents: () => [...globalEventLog],
-  getSignals: () => new Map(globalSignalRegistry),
-  clearEvents: () => {
-    globalEventLog.length = 0;
-  },
-  clearSignals: () => {
-    globalSignalRegistry.clear();
-  },
+      return;
+    }
+    const entity = entities.get(event.id);
+    if (!entity) {
+      return; // created before the log's oldest event
+    }
+    entity.lastUpdated = event.time;
+    if (event.type === 'updated') {
+      entity.value = event.value;
+      entity.error = event.error;
+      entity.updates++;
+    } else if (event.type === 'transition') {
+      entity.value = event.to;
+      entity.updates++;
+    } else if (event.type === 'fetch-end') {
+      entity.value = event.result;
+    } else if (event.type === 'disposed') {
+      entity.disposed = true;
+    }
+  });
+  return [...entities.values()];
 };
 
-function SignalDevTool() {
-  const [isOpen, setIsOpen] = useSignal(true); // Default to open
-  const [selectedTab, setSelectedTab] = useSignal<'events' | 'signals'>('events');
-  const [refreshCount, setRefreshCount] = useSignal(0);
-
-  // Get current events and signals
-  const events = useComputed(() => {
-    refreshCount; // Trigger recomputation when refreshCount changes
-    return SignalDevToolAPI.getEvents().slice(-50); // Last 50 events
-  });
+const describe = (event: DevtoolsEvent, name: string) => {
+  switch (event.type) {
+    case 'created':
+      return `Created ${event.kind}: ${name}`;
+    case 'updated':
+      return 'error' in event ? `Failed: ${name}` : `Updated: ${name}`;
+    case 'disposed':
+      return `Disposed: ${name}`;
+    case 'transition':
+      return 'action' in event
+        ? `Transition of ${name} on ${formatValue(event.action)}`
+        : `Reset of ${name}`;
+    case 'fetch-start':
+      return `Fetch started: ${name}`;
+    case 'fetch-end':
+      return `Fetch ended: ${name}`;
+  }
+};
 
-  const signals = useComputed(() => {
-    refreshCount; // Trigger recomputation when refreshCount changes
-    return Array.from(SignalDevToolAPI.getSignals().values());
-  });
+const eventValue = (event: DevtoolsEvent): unknown => {
+  switch (event.type) {
+    case 'created':
+      return event.value;
+    case 'updated':
+      return 'error' in event ? event.error : event.value;
+    case 'transition':
+      return event.to;
+    case 'fetch-end':
+      return event.result;
+    default:
+      return undefined;
+  }
+};
 
-  const refreshData = () => {
-    setRefreshCount(prev => prev + 1);
-  };
+const eventTypeColors: Record<DevtoolsEvent['type'], string> = {
+  created: 'text-green-600 bg-green-50',
+  updated: 'text-blue-600 bg-blue-50',
+  disposed: 'text-gray-600 bg-gray-50',
+  transition: 'text-purple-600 bg-purple-50',
+  'fetch-start': 'text-orange-600 bg-orange-50',
+  'fetch-end': 'text-orange-600 bg-orange-50',
+};
 
-  const eventTypeColors = {
-    signal_created: 'text-green-600 bg-green-50',
-    signal_updated: 'text-blue-600 bg-blue-50',
-    signal_accessed: 'text-gray-600 bg-gray-50',
-    effect_executed: 'text-purple-600 bg-purple-50',
-    computed_evaluated: 'text-orange-600 bg-orange-50',
-  };
+const kindColors: Record<EntityKind, string> = {
+  signal: 'bg-blue-100 text-blue-800',
+  computed: 'bg-green-100 text-green-800',
+  effect: 'bg-purple-100 text-purple-800',
+  fetch: 'bg-orange-100 text-orange-800',
+  machine: 'bg-pink-100 text-pink-800',
+};
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString();
-  };
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString();
 
-  const formatValue = (value: any) => {
-    if (value === undefined) return 'undefined';
-    if (value === null) return 'null';
-    if (typeof value === 'object') {
+function formatValue(value: unknown) {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'object') {
+    try {
       return JSON.stringify(value, null, 2);
+    } catch {
+      return String(value);
     }
-    return String(value);
-  };
+  }
+  return String(value);
+}
+
+function SignalDevTool() {
+  const [isOpen, setIsOpen] = useState(true);
+  const [selectedTab, setSelectedTab] = useState<'events' | 'signals'>(
+    'events',
+  );
+  const log = useSyncExternalStore(
+    devtoolsSink.subscribe,
+    devtoolsSink.events,
+  );
+
+  const entities = useMemo(() => entitiesOf(log), [log]);
+  const names = useMemo(
+    () => new Map(entities.map((entity) => [entity.id, entity.name])),
+    [entities],
+  );
+  const events = log.slice(-50).reverse();
 
   return (
     <div className="sticky top-0 w-full bg-white border-b-2 border-gray-300 shadow-lg z-[9999]">
@@ -205,22 +168,16 @@ function SignalDevTool() {
                 onClick={() => setSelectedTab('events')}
                 className={`px-3 py-1 rounded ${selectedTab === 'events' ? 'bg-blue-600' : 'bg-gray-600'}`}
               >
-                Events ({events.length})
+                Events ({log.length})
               </button>
               <button
                 onClick={() => setSelectedTab('signals')}
                 className={`px-3 py-1 rounded ${selectedTab === 'signals' ? 'bg-blue-600' : 'bg-gray-600'}`}
               >
-                Signals ({signals.length})
-              </button>
-              <button
-                onClick={refreshData}
-                className="px-3 py-1 rounded bg-green-600 hover:bg-green-700"
-              >
-                🔄 Refresh
+                Signals ({entities.length})
               </button>
               <button
-                onClick={() => SignalDevToolAPI.clearEvents()}
+                onClick={() => devtoolsSink.clear()}
                 className="px-3 py-1 rounded bg-red-600 hover:bg-red-700"
               >
                 Clear
@@ -238,83 +195,81 @@ function SignalDevTool() {
           <div className="h-64 overflow-auto p-3">
             {selectedTab === 'events' && (
               <div className="space-y-2">
-            
-            {events.length === 0 ? (
-              <div className="text-gray-500 text-center py-8">
-                No events yet. Interact with signals to see events here.
-              </div>
-            ) : (
-              events.map((event) => (
-                <div
-                  key={event.id}
-                  className={`p-2 rounded border-l-4 ${eventTypeColors[event.type]}`}
-                >
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <div className="font-mono text-sm font-bold">
-                        {event.type.toUpperCase()}
-                      </div>
-                      <div className="text-sm">{event.details}</div>
-                      {event.oldValue !== undefined && (
-                        <div className="text-xs mt-1">
-                          <span className="text-red-600">Old:</span> {formatValue(event.oldValue)}
-                        </div>
-                      )}
-                      {event.newValue !== undefined && (
-                        <div className="text-xs mt-1">
-                          <span className="text-green-600">New:</span> {formatValue(event.newValue)}
-                        </div>
-                      )}
-                    </div>
-                    <div className="text-xs text-gray-500 ml-2">
-                      {formatTime(event.timestamp)}
-                    </div>
+                {events.length === 0 ? (
+                  <div className="text-gray-500 text-center py-8">
+                    No events yet. Interact with signals to see events here.
                   </div>
-                </div>
-              ))
-              )}
-            </div>
-          )}
-
-          {selectedTab === 'signals' && (
-            <div className="space-y-2">
-            {signals.length === 0 ? (
-              <div className="text-gray-500 text-center py-8">
-                No signals registered yet.
+                ) : (
+                  events.map((event, index) => {
+                    const name = names.get(event.id) ?? `#${event.id}`;
+                    const value = eventValue(event);
+                    return (
+                      <div
+                        key={`${event.time}-${event.id}-${index}`}
+                        className={`p-2 rounded border-l-4 ${eventTypeColors[event.type]}`}
+                      >
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="font-mono text-sm font-bold">
+                              {event.type.toUpperCase()}
+                            </div>
+                            <div className="text-sm">
+                              {describe(event, name)}
+                            </div>
+                            {value !== undefined && (
+                              <div className="text-xs mt-1 font-mono">
+                                {formatValue(value)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500 ml-2">
+                            {formatTime(event.time)}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
               </div>
-            ) : (
-              signals.map((signal) => (
-                <div
-                  key={signal.name}
-                  className="p-3 border rounded bg-gray-50"
-                >
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
+            )}
+
+            {selectedTab === 'signals' && (
+              <div className="space-y-2">
+                {entities.length === 0 ? (
+                  <div className="text-gray-500 text-center py-8">
+                    No signals registered yet.
+                  </div>
+                ) : (
+                  entities.map((entity) => (
+                    <div
+                      key={entity.id}
+                      className={`p-3 border rounded bg-gray-50 ${entity.disposed ? 'opacity-50' : ''}`}
+                    >
                       <div className="font-bold text-sm">
-                        {signal.name}
-                        <span className={
-                          signal.type === 'signal' ? 'ml-2 px-2 py-1 rounded text-xs bg-blue-100 text-blue-800' :
-                          signal.type === 'computed' ? 'ml-2 px-2 py-1 rounded text-xs bg-green-100 text-green-800' :
-                          signal.type === 'effect' ? 'ml-2 px-2 py-1 rounded text-xs bg-purple-100 text-purple-800' :
-                          'ml-2 px-2 py-1 rounded text-xs bg-orange-100 text-orange-800'
-                        }>
-                          {signal.type}
+                        {entity.name}
+                        <span
+                          className={`ml-2 px-2 py-1 rounded text-xs ${kindColors[entity.kind]}`}
+                        >
+                          {entity.kind}
                         </span>
                       </div>
                       <div className="text-sm mt-1 font-mono bg-white p-2 rounded border">
-                        {formatValue(signal.value)}
+                        {formatValue(
+                          entity.error !== undefined
+                            ? entity.error
+                            : entity.value,
+                        )}
                       </div>
                       <div className="text-xs text-gray-500 mt-1">
-                        Accessed: {signal.accessCount} times | 
-                        Last updated: {formatTime(signal.lastUpdated)}
+                        Updates: {entity.updates} | Last updated:{' '}
+                        {formatTime(entity.lastUpdated)}
+                        {entity.disposed && ' | disposed'}
                       </div>
                     </div>
-                  </div>
-                </div>
-              ))
-              )}
-            </div>
-          )}
+                  ))
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
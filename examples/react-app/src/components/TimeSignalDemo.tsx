@@ -1,4 +1,4 @@
-import { use, time$, computed } from 'resig.js';
+import { use, time$, useComputed } from 'resig.js';
 
 function TimeSignalDemo() {
   const message = use('Hello');
@@ -8,12 +8,12 @@ function TimeSignalDemo() {
   const timeSignal = time$(Date.now());
   const delayedMessage = time$(message.value());
 
-  // Computed signals for display - NO dependency arrays!
-  const currentTime = computed(() =>
+  // Computed values for display - NO dependency arrays!
+  const currentTime = useComputed(() =>
     new Date(timeSignal.value()).toLocaleTimeString()
   );
 
-  const delayedDisplay = computed(() =>
+  const delayedDisplay = useComputed(() =>
     delayedMessage.value()
   );
 
@@ -62,7 +62,7 @@ function TimeSignalDemo() {
       
       <div>
         <h3>Current Time</h3>
-        <p>Time: <strong>{currentTime.value()}</strong></p>
+        <p>Time: <strong>{currentTime}</strong></p>
         <button onClick={startTimeUpdates}>Start Auto-Update</button>
         <button onClick={() => timeSignal.set(Date.now())}>Update Now</button>
         <p><em>Uses time algebra, not React hooks</em></p>
@@ -85,7 +85,7 @@ function TimeSignalDemo() {
             onChange={(e) => delayMs.set(Number(e.target.value))}
           />
         </div>
-        <p>Delayed Message: <strong>{delayedDisplay.value()}</strong></p>
+        <p>Delayed Message: <strong>{delayedDisplay}</strong></p>
         <button onClick={triggerDelay}>Trigger Delay</button>
         <p><em>Check console for delayed output</em></p>
       </div>
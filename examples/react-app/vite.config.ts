@@ -9,6 +9,7 @@ export default defineConfig({
   },
   resolve: {
     alias: {
+      // Also resolves subpaths such as 'resig.js/devtools'
       'resig.js': '../../src'
     }
   }
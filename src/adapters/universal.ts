@@ -3,13 +3,23 @@
  * Allows plugins to work seamlessly across all frameworks
  */
 
-import { Signal, signal } from '../core/signal';
-import { Plugin, compose } from '../plugins';
+import { AsyncState } from '../algebras/fetch';
+import { Scope } from '../core/scope';
+import { ReadonlySignal, signal, WritableSignal } from '../core/signal';
+import { compose, Plugin } from '../plugins';
+
+// Writable signals adapt to a getter/setter pair, read-only ones to a getter
+export type AdaptedSignal<S extends ReadonlySignal<unknown>> =
+  S extends WritableSignal<infer T>
+    ? [() => T, (value: T) => void]
+    : S extends ReadonlySignal<infer T>
+      ? [() => T]
+      : never;
 
 // Universal adapter interface that all framework adapters implement
-export interface FrameworkAdapter<T> {
+export interface FrameworkAdapter {
   // Create a signal using the framework's native reactivity
-  createSignal(initialValue: T): [() => T, (value: T) => void];
+  createSignal<T>(initialValue: T): [() => T, (value: T) => void];
   
   // Create a computed value using the framework's native reactivity
   createComputed<U>(compute: () => U): () => U;
@@ -18,44 +28,92 @@ export interface FrameworkAdapter<T> {
   createEffect(effect: () => void | (() => void)): void;
   
   // Convert a Signal-Σ signal to framework-native signal
-  adaptSignal(signal: Signal<T>): [() => T, (value: T) => void];
+  adaptSignal<S extends ReadonlySignal<unknown>>(signal: S): AdaptedSignal<S>;
   
   // Convert framework-native signal to Signal-Σ signal
-  toSignal(getValue: () => T, setValue: (value: T) => void): Signal<T>;
+  toSignal<T>(getValue: () => T, setValue: (value: T) => void): WritableSignal<T>;
+
+  // Scope living as long as the current component, disposed on unmount; a
+  // remount gets a fresh one
+  useScope(): Scope;
 }
 
+// Core signal mirroring a framework-native signal: writes reach both
+export const bridgeSignal = <T>(
+  getValue: () => T,
+  setValue: (value: T) => void,
+): WritableSignal<T> => {
+  const sig = signal(getValue());
+  const set = (value: T) => {
+    setValue(value);
+    sig.set(value);
+  };
+
+  return {
+    ...sig,
+    set,
+    update: (f: (current: T) => T) => set(f(sig.peek())),
+    _set: set,
+  };
+};
+
+// Signals a hook created in each scope, so re-renders reuse them
+const owned = new WeakMap<Scope, unknown>();
+
+// Creates a value in the current component's scope once, and again for
+// each new scope
+const useOwned = <R>(adapter: FrameworkAdapter, create: () => R): R => {
+  const scope = adapter.useScope();
+  if (!owned.has(scope)) {
+    owned.set(scope, scope.run(create));
+  }
+  return owned.get(scope) as R;
+};
+
+// A source signal and what the plugins make of it
+interface Pipeline<T> {
+  readonly source: WritableSignal<T>;
+  readonly enhanced: ReadonlySignal<T>;
+}
+
+const pipeline = <T>(source: WritableSignal<T>, plugins: Plugin<T>[]): Pipeline<T> => ({
+  source,
+  enhanced: plugins.length > 0 ? compose(...plugins)(source) : source,
+});
+
 // Universal plugin application that works with any framework adapter
 export const usePluginSignal = <T>(
-  adapter: FrameworkAdapter<T>,
+  adapter: FrameworkAdapter,
   initialValue: T,
   ...plugins: Plugin<T>[]
 ): [() => T, (value: T) => void] => {
-  // Create core Signal-Σ signal
-  const coreSignal = signal(initialValue);
-  
-  // Apply all plugins to the core signal
-  const enhancedSignal = plugins.length > 0 
-    ? compose(...plugins)(coreSignal)
-    : coreSignal;
+  // Create core Signal-Σ signal and apply all plugins to it, once per scope
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(signal(initialValue), plugins)
+  );
   
-  // Adapt to framework-native signal
-  return adapter.adaptSignal(enhancedSignal);
+  // Adapt to framework-native signal; writes go through the core signal
+  // so derived plugins (debounce, filter...) see them
+  const [value] = adapter.adaptSignal(enhanced);
+  return [value, source.set];
 };
 
 // Universal computed with plugins
 export const usePluginComputed = <U>(
-  adapter: FrameworkAdapter<any>,
+  adapter: FrameworkAdapter,
   compute: () => U,
   ...plugins: Plugin<U>[]
 ): () => U => {
   // Create computed value
   const computedValue = adapter.createComputed(compute);
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(signal(computedValue()), plugins)
+  );
 
-  // If plugins are provided, apply them
+  // If plugins are provided, feed them each new value
   if (plugins.length > 0) {
-    const coreSignal = signal(computedValue());
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    return adapter.adaptSignal(enhancedSignal)[0];
+    source.set(computedValue());
+    return adapter.adaptSignal(enhanced)[0];
   }
 
   return computedValue;
@@ -63,25 +121,29 @@ export const usePluginComputed = <U>(
 
 // Universal async signal with plugins
 export const usePluginAsyncSignal = <T>(
-  adapter: FrameworkAdapter<any>,
+  adapter: FrameworkAdapter,
   asyncFn: () => Promise<T>,
   initialValue?: T,
-  ...plugins: Plugin<any>[]
-): [() => { data?: T; loading: boolean; error?: Error }, () => void, (value: T) => void] => {
-  const [state, setState] = adapter.createSignal({
+  ...plugins: Plugin<AsyncState<T>>[]
+): [() => AsyncState<T>, () => void, (value: T) => void] => {
+  const [state, setState] = adapter.createSignal<AsyncState<T>>({
     data: initialValue,
     loading: false,
     error: undefined,
   });
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(adapter.toSignal(state, setState), plugins)
+  );
 
+  // Updates go through the bridge so plugins see them
   const refetch = async () => {
-    setState({ ...state(), loading: true, error: undefined });
+    source.set({ ...source.peek(), loading: true, error: undefined });
     try {
       const data = await asyncFn();
-      setState({ data, loading: false, error: undefined });
+      source.set({ data, loading: false, error: undefined });
     } catch (error) {
-      setState({
-        ...state(),
+      source.set({
+        ...source.peek(),
         loading: false,
         error: error instanceof Error ? error : new Error(String(error)),
       });
@@ -89,14 +151,12 @@ export const usePluginAsyncSignal = <T>(
   };
 
   const setValue = (value: T) => {
-    setState({ data: value, loading: false, error: undefined });
+    source.set({ data: value, loading: false, error: undefined });
   };
 
   // Apply plugins if provided
   if (plugins.length > 0) {
-    const coreSignal = adapter.toSignal(state, setState);
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    const [enhancedState] = adapter.adaptSignal(enhancedSignal);
+    const [enhancedState] = adapter.adaptSignal(enhanced);
     return [enhancedState, refetch, setValue];
   }
 
@@ -105,7 +165,7 @@ export const usePluginAsyncSignal = <T>(
 
 // Universal persistent signal with plugins
 export const usePluginPersistentSignal = <T>(
-  adapter: FrameworkAdapter<T>,
+  adapter: FrameworkAdapter,
   key: string,
   initialValue: T,
   ...plugins: Plugin<T>[]
@@ -122,6 +182,9 @@ export const usePluginPersistentSignal = <T>(
   }
 
   const [value, setValue] = adapter.createSignal(storedValue);
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(adapter.toSignal(value, setValue), plugins)
+  );
 
   // Create effect to persist changes
   adapter.createEffect(() => {
@@ -134,9 +197,7 @@ export const usePluginPersistentSignal = <T>(
 
   // Apply plugins if provided
   if (plugins.length > 0) {
-    const coreSignal = adapter.toSignal(value, setValue);
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    return adapter.adaptSignal(enhancedSignal);
+    return [adapter.adaptSignal(enhanced)[0], source.set];
   }
 
   return [value, setValue];
@@ -144,13 +205,16 @@ export const usePluginPersistentSignal = <T>(
 
 // Universal debounced signal with plugins
 export const usePluginDebouncedSignal = <T>(
-  adapter: FrameworkAdapter<T>,
+  adapter: FrameworkAdapter,
   initialValue: T,
   delay: number,
   ...plugins: Plugin<T>[]
 ): [() => T, (value: T) => void, () => T] => {
   const [immediate, setImmediate] = adapter.createSignal(initialValue);
   const [debounced, setDebounced] = adapter.createSignal(initialValue);
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(adapter.toSignal(immediate, setImmediate), plugins)
+  );
 
   adapter.createEffect(() => {
     const timer = setTimeout(() => {
@@ -162,10 +226,8 @@ export const usePluginDebouncedSignal = <T>(
 
   // Apply plugins to immediate value if provided
   if (plugins.length > 0) {
-    const coreSignal = adapter.toSignal(immediate, setImmediate);
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    const [enhancedImmediate, enhancedSetImmediate] = adapter.adaptSignal(enhancedSignal);
-    return [enhancedImmediate, enhancedSetImmediate, debounced];
+    const [enhancedImmediate] = adapter.adaptSignal(enhanced);
+    return [enhancedImmediate, source.set, debounced];
   }
 
   return [immediate, setImmediate, debounced];
@@ -173,20 +235,21 @@ export const usePluginDebouncedSignal = <T>(
 
 // Universal validated signal with plugins
 export const usePluginValidatedSignal = <T>(
-  adapter: FrameworkAdapter<T>,
+  adapter: FrameworkAdapter,
   initialValue: T,
   validator: (value: T) => boolean,
   ...plugins: Plugin<T>[]
 ): [() => T, (value: T) => void, () => boolean] => {
   const [value, setValue] = adapter.createSignal(initialValue);
   const isValid = adapter.createComputed(() => validator(value()));
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(adapter.toSignal(value, setValue), plugins)
+  );
 
   // Apply plugins if provided
   if (plugins.length > 0) {
-    const coreSignal = adapter.toSignal(value, setValue);
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    const [enhancedValue, enhancedSetValue] = adapter.adaptSignal(enhancedSignal);
-    return [enhancedValue, enhancedSetValue, isValid];
+    const [enhancedValue] = adapter.adaptSignal(enhanced);
+    return [enhancedValue, source.set, isValid];
   }
 
   return [value, setValue, isValid];
@@ -194,23 +257,25 @@ export const usePluginValidatedSignal = <T>(
 
 // Universal state machine with plugins
 export const usePluginMachine = <S, A>(
-  adapter: FrameworkAdapter<S>,
+  adapter: FrameworkAdapter,
   initialState: S,
   reducer: (state: S, action: A) => S,
   ...plugins: Plugin<S>[]
 ): [() => S, (action: A) => void] => {
   const [state, setState] = adapter.createSignal(initialState);
+  const { source, enhanced } = useOwned(adapter, () =>
+    pipeline(adapter.toSignal(state, setState), plugins)
+  );
 
+  // Transitions go through the bridge so plugins see them
   const send = (action: A) => {
-    const newState = reducer(state(), action);
-    setState(newState);
+    const newState = reducer(source.peek(), action);
+    source.set(newState);
   };
 
   // Apply plugins if provided
   if (plugins.length > 0) {
-    const coreSignal = adapter.toSignal(state, setState);
-    const enhancedSignal = compose(...plugins)(coreSignal);
-    const [enhancedState] = adapter.adaptSignal(enhancedSignal);
+    const [enhancedState] = adapter.adaptSignal(enhanced);
     return [enhancedState, send];
   }
 
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { fetch } from './fetch';
+
+// Resolves once pending promise callbacks have run
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe('fetch', () => {
+  test('refetch requests the data once', async () => {
+    const fetcher = jest.fn(() => Promise.resolve('data'));
+    const user = fetch(fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    const refetched = user.refetch();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await settle();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(refetched.value()).toEqual({ data: 'data', loading: false });
+  });
+
+  describe('cache', () => {
+    afterEach(() => localStorage.clear());
+
+    test('a miss requests once and caches the result', async () => {
+      const fetcher = jest.fn(() => Promise.resolve('data'));
+      const cached = fetch(fetcher).cache('user');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      await settle();
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(cached.value()).toEqual({ data: 'data', loading: false });
+      expect(localStorage.getItem('fetch_cache_user')).toBe('"data"');
+    });
+
+    test('a fresh hit skips the request', async () => {
+      localStorage.setItem('fetch_cache_user', '"stored"');
+      localStorage.setItem('fetch_cache_time_user', Date.now().toString());
+      const fetcher = jest.fn(() => Promise.resolve('data'));
+      const cached = fetch(fetcher).cache('user');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      await settle();
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cached.value()).toEqual({ data: 'stored', loading: false });
+      expect(localStorage.getItem('fetch_cache_user')).toBe('"stored"');
+    });
+
+    test('stale data is requested again', async () => {
+      localStorage.setItem('fetch_cache_user', '"stored"');
+      localStorage.setItem('fetch_cache_time_user', '0');
+      const cached = fetch(() => Promise.resolve('data')).cache('user');
+
+      await settle();
+      expect(cached.value()).toEqual({ data: 'data', loading: false });
+    });
+  });
+});
@@ -1,9 +1,20 @@
 /**
  * Network Algebra - HTTP operations and async data fetching
  * React-Query replacement with algebraic composition
+ * A fetch without dependencies completes once it settles; one with
+ * dependencies refetches whenever they change
+ * A named fetch joins SSR snapshots with its data; hydrated with it, it
+ * skips its initial request
  */
 
+import { reportingAs, withDevtools } from '../core/devtools';
 import { Effect, effect } from '../core/effect';
+import { nodeOf } from '../core/graph';
+import { observable } from '../core/observable';
+import { getScheduler, Scheduler } from '../core/scheduler';
+import { onDispose } from '../core/scope';
+import { SignalOptions, WritableSignal } from '../core/signal';
+import { registerSerializable } from '../core/ssr';
 
 import { Time, timeout } from './time';
 
@@ -13,129 +24,180 @@ export interface AsyncState<T> {
   error?: Error;
 }
 
+export interface FetchOptions<A> extends SignalOptions<AsyncState<A>> {
+  // Registers the fetch for SSR snapshots and hydration, and names it for
+  // introspection and devtools
+  readonly name?: string;
+}
+
 export interface Fetch<A> extends Effect<AsyncState<A>> {
   readonly retry: (n: number) => Fetch<A>;
   readonly cache: (key: string, ttl?: number) => Fetch<A>;
   readonly refetch: () => Fetch<A>;
 }
 
+// Retries a failing fetcher up to `n` times with exponential backoff
+const withRetries = <A>(
+  fetcher: () => Promise<A>,
+  n: number,
+  scheduler: Scheduler,
+): Promise<A> => {
+  const attempt = (attemptsLeft: number): Promise<A> =>
+    fetcher().catch((error) => {
+      if (attemptsLeft <= 0) {
+        throw error;
+      }
+      const delay = Math.pow(2, n - attemptsLeft) * 1000;
+      return new Promise<A>((resolve) => {
+        scheduler.setTimeout(() => resolve(attempt(attemptsLeft - 1)), delay);
+      });
+    });
+  return attempt(n);
+};
+
 /**
  * Creates a Fetch effect with network operations
  */
 export const fetch = <A>(
   fetcher: () => Promise<A>,
   deps: Effect<unknown>[] = [],
-): Fetch<A> & { _set: (value: AsyncState<A>) => void } => {
-  const baseEffect = effect<AsyncState<A>>({ loading: true });
+  options?: FetchOptions<A>,
+): Fetch<A> & WritableSignal<AsyncState<A>> => {
+  // Fetches derived through `retry`, `cache` and `refetch` leave the
+  // snapshot entry to this one
+  const derived = options && { ...options, name: undefined };
+  const baseEffect = reportingAs('fetch', () =>
+    effect<AsyncState<A>>({ loading: true }, options),
+  );
 
-  const fetchInstance: Fetch<A> & { _set: (value: AsyncState<A>) => void } = {
+  const fetchInstance: Fetch<A> & WritableSignal<AsyncState<A>> = {
     value: baseEffect.value,
+    peek: baseEffect.peek,
     map: baseEffect.map,
     subscribe: baseEffect.subscribe,
+    isClosed: baseEffect.isClosed,
+    [observable]: baseEffect[observable],
+    [Symbol.asyncIterator]: baseEffect[Symbol.asyncIterator],
+    dispose: () => {
+      depUnsubscribes.forEach((unsubscribe) => unsubscribe());
+      baseEffect.dispose();
+    },
     bind: baseEffect.bind,
     chain: baseEffect.chain,
+    set: baseEffect.set,
+    update: baseEffect.update,
+    asReadonly: baseEffect.asReadonly,
+    complete: baseEffect.complete,
     _set: baseEffect._set,
 
-    retry: (n: number): Fetch<A> => {
-      const retryFetch = fetch(fetcher, deps);
-
-      const attemptFetch = async (attemptsLeft: number): Promise<void> => {
-        try {
-          retryFetch._set({ loading: true });
-          const data = await fetcher();
-          retryFetch._set({ data, loading: false });
-        } catch (error) {
-          if (attemptsLeft > 0) {
-            // Exponential backoff
-            const delay = Math.pow(2, n - attemptsLeft) * 1000;
-            setTimeout(() => attemptFetch(attemptsLeft - 1), delay);
-          } else {
-            retryFetch._set({
-              error: error instanceof Error ? error : new Error(String(error)),
-              loading: false,
-            });
-          }
-        }
-      };
-
-      attemptFetch(n);
-      return retryFetch;
-    },
+    retry: (n: number): Fetch<A> =>
+      fetch(
+        () => withRetries(fetcher, n, getScheduler(options?.scheduler)),
+        deps,
+        derived,
+      ),
 
     cache: (key: string, ttl: number = 300000): Fetch<A> => {
       // 5 min default TTL
-      const cached = fetch(fetcher, deps);
-
-      // Check cache first
       const cacheKey = `fetch_cache_${key}`;
       const cacheTimeKey = `fetch_cache_time_${key}`;
 
-      try {
-        const cachedData = localStorage.getItem(cacheKey);
-        const cacheTime = localStorage.getItem(cacheTimeKey);
-
-        if (cachedData && cacheTime) {
-          const age = Date.now() - parseInt(cacheTime);
-          if (age < ttl) {
-            cached._set({
-              data: JSON.parse(cachedData),
-              loading: false,
-            });
-            return cached;
+      // Fresh cached data answers a request without the network
+      const read = (): { data: A } | undefined => {
+        try {
+          const cachedData = localStorage.getItem(cacheKey);
+          const cacheTime = localStorage.getItem(cacheTimeKey);
+          if (cachedData && cacheTime) {
+            const age = Date.now() - parseInt(cacheTime);
+            if (age < ttl) {
+              return { data: JSON.parse(cachedData) };
+            }
           }
+        } catch (e) {
+          // Cache read failed, proceed with fetch
         }
-      } catch (e) {
-        // Cache read failed, proceed with fetch
-      }
+        return undefined;
+      };
 
-      // Subscribe to successful fetches and cache them
-      baseEffect.subscribe((state) => {
-        if (state.data && !state.loading && !state.error) {
-          try {
-            localStorage.setItem(cacheKey, JSON.stringify(state.data));
-            localStorage.setItem(cacheTimeKey, Date.now().toString());
-          } catch (e) {
-            // Cache write failed, continue without caching
-          }
+      const write = (data: A) => {
+        try {
+          localStorage.setItem(cacheKey, JSON.stringify(data));
+          localStorage.setItem(cacheTimeKey, Date.now().toString());
+        } catch (e) {
+          // Cache write failed, continue without caching
         }
-        cached._set(state);
-      });
+      };
 
-      return cached;
+      return fetch(
+        () => {
+          const hit = read();
+          return hit
+            ? Promise.resolve(hit.data)
+            : fetcher().then((data) => {
+                write(data);
+                return data;
+              });
+        },
+        deps,
+        derived,
+      );
     },
 
-    refetch: (): Fetch<A> => {
-      const refetched = fetch(fetcher, deps);
-      executeFetch(refetched);
-      return refetched;
-    },
+    // A new fetch requests its data as it is created
+    refetch: (): Fetch<A> => fetch(fetcher, deps, derived),
   };
 
   // Execute initial fetch
   const executeFetch = async (
-    target: Fetch<A> & { _set: (value: AsyncState<A>) => void },
+    target: Fetch<A> & WritableSignal<AsyncState<A>>,
   ) => {
+    const node = nodeOf(target.value)!;
+    withDevtools((hook) => hook.fetchStarted(node));
     try {
-      target._set({ loading: true });
+      target.set({ loading: true });
       const data = await fetcher();
-      target._set({ data, loading: false });
+      target.set({ data, loading: false });
     } catch (error) {
-      target._set({
+      target.set({
         error: error instanceof Error ? error : new Error(String(error)),
         loading: false,
       });
     }
+    withDevtools((hook) => hook.fetchEnded(node, target.peek()));
+    if (deps.length === 0) {
+      target.complete();
+    }
   };
 
-  executeFetch(fetchInstance);
+  // Only settled data is worth shipping to the client
+  let hydrated = false;
+  if (options?.name) {
+    registerSerializable(options.name, {
+      serialize: () => {
+        const state = baseEffect.peek();
+        return state.loading || state.error ? undefined : { data: state.data };
+      },
+      restore: (value) => {
+        hydrated = true;
+        baseEffect.set({ data: (value as { data: A }).data, loading: false });
+      },
+    });
+  }
+
+  if (!hydrated) {
+    executeFetch(fetchInstance);
+  } else if (deps.length === 0) {
+    fetchInstance.complete();
+  }
 
   // Re-fetch when dependencies change
-  deps.forEach((dep) => {
+  const depUnsubscribes = deps.map((dep) =>
     dep.subscribe(() => {
       executeFetch(fetchInstance);
-    });
-  });
+    }),
+  );
 
+  onDispose(fetchInstance.dispose);
   return fetchInstance;
 };
 
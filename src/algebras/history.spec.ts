@@ -0,0 +1,170 @@
+import { Scheduler } from '../core/scheduler';
+import { signal } from '../core/signal';
+import { historyPlugin } from '../plugins';
+
+import { history } from './history';
+import { fsm, machine } from './state';
+
+// Clock the test moves by hand; `debounceMs` only reads it
+const manualClock = () => {
+  let now = 0;
+  const scheduler: Scheduler = {
+    schedule: (task) => task(),
+    setTimeout: () => 0,
+    clearTimeout: () => undefined,
+    now: () => now,
+  };
+  return { scheduler, advance: (ms: number) => (now += ms) };
+};
+
+const values = <A>(entries: readonly { value: A }[]) =>
+  entries.map((entry) => entry.value);
+
+describe('history', () => {
+  test('undo and redo walk through the changes of a signal', () => {
+    const text = signal('a');
+    const undoable = history(text);
+    text.set('b');
+    text.set('c');
+
+    undoable.undo();
+    expect(text.value()).toBe('b');
+    undoable.undo();
+    expect(text.value()).toBe('a');
+    expect(undoable.canUndo.value()).toBe(false);
+    undoable.undo();
+    expect(text.value()).toBe('a');
+
+    undoable.redo();
+    expect(text.value()).toBe('b');
+    expect(values(undoable.future.value())).toEqual(['c']);
+  });
+
+  test('a new change drops the steps to redo', () => {
+    const count = signal(0);
+    const undoable = history(count);
+    count.set(1);
+    count.set(2);
+    undoable.undo();
+    expect(undoable.canRedo.value()).toBe(true);
+
+    count.set(5);
+    expect(undoable.canRedo.value()).toBe(false);
+    undoable.redo();
+    expect(count.value()).toBe(5);
+    expect(values(undoable.past.value())).toEqual([0, 1]);
+  });
+
+  test('the oldest steps are dropped beyond the limit', () => {
+    const count = signal(0);
+    const undoable = history(count, { limit: 2 });
+    [1, 2, 3, 4].forEach(count.set);
+
+    expect(values(undoable.past.value())).toEqual([2, 3]);
+    undoable.undo();
+    undoable.undo();
+    undoable.undo();
+    expect(count.value()).toBe(2);
+  });
+
+  test('changes closer together than debounceMs form one step', () => {
+    const { scheduler, advance } = manualClock();
+    const text = signal('');
+    const undoable = history(text, { debounceMs: 100, scheduler });
+
+    text.set('h');
+    advance(50);
+    text.set('he');
+    advance(50);
+    text.set('hey');
+    advance(150);
+    text.set('hey!');
+
+    expect(values(undoable.past.value())).toEqual(['', 'hey']);
+    undoable.undo();
+    undoable.undo();
+    expect(text.value()).toBe('');
+  });
+
+  test('consecutive changes in the same group form one step', () => {
+    const form = signal({ field: 'name', value: '' });
+    const undoable = history(form, { groupBy: (state) => state.field });
+
+    form.set({ field: 'name', value: 'A' });
+    form.set({ field: 'name', value: 'Ad' });
+    form.set({ field: 'email', value: 'a@' });
+
+    expect(values(undoable.past.value()).map((state) => state.value)).toEqual([
+      '',
+      'Ad',
+    ]);
+  });
+
+  test('checkpoint labels a step and closes it', () => {
+    const { scheduler } = manualClock();
+    const text = signal('draft');
+    const undoable = history(text, { debounceMs: 100, scheduler });
+
+    text.set('draft 2');
+    undoable.checkpoint('saved');
+    text.set('draft 3');
+
+    expect(undoable.past.value()).toEqual([
+      { value: 'draft' },
+      { value: 'draft 2', label: 'saved' },
+    ]);
+  });
+
+  test('clear forgets every step and keeps the current value', () => {
+    const count = signal(0);
+    const undoable = history(count);
+    count.set(1);
+    count.set(2);
+    undoable.undo();
+
+    undoable.clear();
+    expect(count.value()).toBe(1);
+    expect(undoable.canUndo.value()).toBe(false);
+    expect(undoable.canRedo.value()).toBe(false);
+  });
+
+  test('undo resets a machine to its previous states', () => {
+    const counter = machine(0, (n: number, by: number) => n + by);
+    const light = fsm('red', [
+      { from: 'red', to: 'green', on: 'go' },
+      { from: 'green', to: 'red', on: 'stop' },
+    ]);
+    const counts = history(counter);
+    const lights = history(light);
+
+    counter.send(2);
+    counter.send(3);
+    light.send('go');
+
+    counts.undo();
+    expect(counter.state).toBe(2);
+    counts.redo();
+    expect(counter.state).toBe(5);
+    lights.undo();
+    expect(light.current).toBe('red');
+    expect(lights.canRedo.value()).toBe(true);
+  });
+
+  test('historyPlugin adds undo to a signal and disposes both', () => {
+    const source = signal(0);
+    const count = historyPlugin<number>({ limit: 5 })(source);
+    source.set(1);
+    source.set(2);
+
+    count.undo();
+    expect(count.value()).toBe(1);
+
+    count.dispose();
+    source.set(3);
+    expect(count.canUndo.value()).toBe(true);
+    expect(values(count.past.value())).toEqual([0]);
+    expect(() => historyPlugin()(signal(0).asReadonly())).toThrow(
+      'historyPlugin needs a writable signal',
+    );
+  });
+});
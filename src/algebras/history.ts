@@ -0,0 +1,192 @@
+/**
+ * History Algebra - undo and redo for signals and machines
+ * Every change of the source becomes an undo step, unless it merges into
+ * the previous one: changes closer together than `debounceMs`, or
+ * consecutive changes in the same `groupBy` group, form a single step
+ * Undoing writes the previous value back into the source (or resets the
+ * machine), so subscribers of the source see it like any other change
+ */
+
+import { getScheduler, Scheduler } from '../core/scheduler';
+import { onDispose } from '../core/scope';
+import { computed, Signal, signal, WritableSignal } from '../core/signal';
+
+import { FSM, StateMachine } from './state';
+
+export interface HistoryEntry<A> {
+  readonly value: A;
+  readonly label?: string;
+}
+
+export interface HistoryOptions<A> {
+  // Number of undo steps kept; the oldest are dropped first
+  readonly limit?: number;
+  // Changes closer together than this merge into one step
+  readonly debounceMs?: number;
+  // Consecutive changes with the same defined key merge into one step
+  readonly groupBy?: (value: A) => unknown;
+  // Clock for `debounceMs`; defaults to the app-wide scheduler
+  readonly scheduler?: Scheduler;
+}
+
+export interface History<A> {
+  // Steps `undo` goes back to, oldest first, and steps `redo` replays
+  readonly past: Signal<readonly HistoryEntry<A>[]>;
+  readonly future: Signal<readonly HistoryEntry<A>[]>;
+  readonly canUndo: Signal<boolean>;
+  readonly canRedo: Signal<boolean>;
+  readonly undo: () => void;
+  readonly redo: () => void;
+  // Labels the current value and starts a new step with the next change
+  readonly checkpoint: (label?: string) => void;
+  // Forgets every step, keeping the current value
+  readonly clear: () => void;
+  readonly dispose: () => void;
+}
+
+interface Log<A> {
+  readonly past: readonly HistoryEntry<A>[];
+  readonly present: HistoryEntry<A>;
+  readonly future: readonly HistoryEntry<A>[];
+}
+
+interface Target<A> {
+  readonly read: () => A;
+  readonly write: (value: A) => void;
+  readonly subscribe: (fn: (value: A) => void) => () => void;
+}
+
+const targetOf = <A>(
+  source: WritableSignal<A> | StateMachine<A, unknown> | FSM<string, unknown>,
+): Target<A> => {
+  if ('set' in source) {
+    return {
+      read: source.peek,
+      write: source.set,
+      subscribe: source.subscribe,
+    };
+  }
+  const machine = source as StateMachine<A, unknown> &
+    Partial<FSM<string, unknown>>;
+  return {
+    read: () => ('current' in machine ? machine.current : machine.state) as A,
+    write: machine.reset,
+    subscribe: machine.subscribe,
+  };
+};
+
+/**
+ * Records the changes of a writable signal, a `machine` or an `fsm` for
+ * undo and redo
+ */
+export function history<A>(
+  source: WritableSignal<A>,
+  options?: HistoryOptions<A>,
+): History<A>;
+export function history<S, A>(
+  source: StateMachine<S, A>,
+  options?: HistoryOptions<S>,
+): History<S>;
+export function history<S extends string, A>(
+  source: FSM<S, A>,
+  options?: HistoryOptions<S>,
+): History<S>;
+export function history<A>(
+  source: WritableSignal<A> | StateMachine<A, unknown> | FSM<string, unknown>,
+  options: HistoryOptions<A> = {},
+): History<A> {
+  const { limit = 100, debounceMs, groupBy } = options;
+  const target = targetOf(source);
+  const log = signal<Log<A>>({
+    past: [],
+    present: { value: target.read() },
+    future: [],
+  });
+  const past = computed(() => log.value().past);
+  const future = computed(() => log.value().future);
+
+  // Set once the current step is closed: the next change starts a new one
+  let sealed = true;
+  let lastChange = -Infinity;
+  let lastGroup: unknown;
+
+  const trim = (entries: readonly HistoryEntry<A>[]) =>
+    entries.slice(Math.max(entries.length - limit, 0));
+
+  const record = (value: A) => {
+    const current = log.peek();
+    // Our own undo and redo writes, or a value already recorded
+    if (value === current.present.value) {
+      return;
+    }
+
+    const now = getScheduler(options.scheduler).now();
+    const group = groupBy?.(value);
+    const merge =
+      !sealed &&
+      ((debounceMs !== undefined && now - lastChange < debounceMs) ||
+        (group !== undefined && group === lastGroup));
+    sealed = false;
+    lastChange = now;
+    lastGroup = group;
+
+    log.set({
+      past: merge ? current.past : trim([...current.past, current.present]),
+      present: { value },
+      future: [],
+    });
+  };
+
+  const unsubscribe = target.subscribe(record);
+  onDispose(unsubscribe);
+
+  return {
+    past,
+    future,
+    canUndo: computed(() => past.value().length > 0),
+    canRedo: computed(() => future.value().length > 0),
+
+    undo: () => {
+      const current = log.peek();
+      const previous = current.past[current.past.length - 1];
+      if (!previous) {
+        return;
+      }
+      sealed = true;
+      log.set({
+        past: current.past.slice(0, -1),
+        present: previous,
+        future: [current.present, ...current.future],
+      });
+      target.write(previous.value);
+    },
+
+    redo: () => {
+      const current = log.peek();
+      const [next, ...rest] = current.future;
+      if (!next) {
+        return;
+      }
+      sealed = true;
+      log.set({
+        past: trim([...current.past, current.present]),
+        present: next,
+        future: rest,
+      });
+      target.write(next.value);
+    },
+
+    checkpoint: (label?: string) => {
+      const current = log.peek();
+      sealed = true;
+      log.set({ ...current, present: { ...current.present, label } });
+    },
+
+    clear: () => {
+      sealed = true;
+      log.set({ past: [], present: log.peek().present, future: [] });
+    },
+
+    dispose: unsubscribe,
+  };
+}
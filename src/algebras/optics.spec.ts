@@ -0,0 +1,161 @@
+import { computed, signal } from '../core/signal';
+import { store } from '../core/store';
+
+import { focus, lens, optic, optional, prism, traversal } from './optics';
+
+type Shape =
+  | { readonly type: 'circle'; readonly radius: number }
+  | { readonly type: 'square'; readonly side: number };
+
+interface User {
+  readonly name: string;
+  readonly address: { readonly city: string; readonly zip: string };
+  readonly nickname?: { readonly value: string };
+  readonly shapes: readonly Shape[];
+}
+
+const user = (): User => ({
+  name: 'Ada',
+  address: { city: 'London', zip: 'N1' },
+  shapes: [
+    { type: 'circle', radius: 1 },
+    { type: 'square', side: 2 },
+  ],
+});
+
+const circle = prism<Shape, number>(
+  (shape) => (shape.type === 'circle' ? shape.radius : undefined),
+  (radius) => ({ type: 'circle', radius }),
+);
+
+const digits = prism<number, string>(
+  (n) => (Number.isInteger(n) ? String(n) : undefined),
+  Number,
+);
+
+const nickname = optional<User, string>(
+  (u) => u.nickname?.value,
+  (u, value) => ({ ...u, nickname: { value } }),
+);
+
+describe('optics', () => {
+  test('composing optics yields the weaker kind', () => {
+    const address = lens<User, User['address']>(
+      (u) => u.address,
+      (u, value) => ({ ...u, address: value }),
+    );
+    const shapes = traversal<User, Shape>(
+      (u) => [...u.shapes],
+      (u, f) => ({ ...u, shapes: u.shapes.map(f) }),
+    );
+
+    expect(address.compose(optic<User['address']>().prop('city')).kind).toBe(
+      'lens',
+    );
+    expect(circle.compose(digits).kind).toBe('prism');
+    expect(optic<Shape>().compose(circle).kind).toBe('optional');
+    expect(circle.compose(optic<number>()).kind).toBe('optional');
+    expect(nickname.compose(optic<string>()).kind).toBe('optional');
+    expect(shapes.compose(circle).kind).toBe('traversal');
+    expect(optic<User>().prop('shapes').each().kind).toBe('traversal');
+    expect(optic<User>().prop('shapes').at(0).kind).toBe('optional');
+  });
+
+  test('reading through composed optics', () => {
+    const shapes = optic<User>().prop('shapes');
+
+    expect(optic<User>().prop('address').prop('city').get(user())).toBe(
+      'London',
+    );
+    expect(shapes.at(0).compose(circle).getOption(user())).toBe(1);
+    expect(shapes.at(1).compose(circle).getOption(user())).toBeUndefined();
+    expect(shapes.at(5).getOption(user())).toBeUndefined();
+    expect(shapes.each().compose(circle).getAll(user())).toEqual([1]);
+    expect(circle.compose(digits).getOption(user().shapes[0])).toBe('1');
+    expect(circle.compose(digits).reverseGet('3')).toEqual({
+      type: 'circle',
+      radius: 3,
+    });
+  });
+
+  test('writing copies the path and shares untouched branches', () => {
+    const before = user();
+    const after = optic<User>()
+      .prop('address')
+      .prop('city')
+      .set(before, 'Paris');
+
+    expect(after.address).toEqual({ city: 'Paris', zip: 'N1' });
+    expect(before.address.city).toBe('London');
+    expect(after.shapes).toBe(before.shapes);
+
+    const grown = optic<User>()
+      .prop('shapes')
+      .each()
+      .compose(circle)
+      .modify(before, (radius) => radius * 10);
+    expect(grown.shapes[0]).toEqual({ type: 'circle', radius: 10 });
+    expect(grown.shapes[1]).toBe(before.shapes[1]);
+    expect(grown.address).toBe(before.address);
+  });
+
+  test('writing through a missing part is a no-op', () => {
+    const before = user();
+    const shapes = optic<User>().prop('shapes');
+
+    expect(nickname.set(before, 'A')).toBe(before);
+    expect(shapes.at(1).compose(circle).set(before, 5)).toBe(before);
+    expect(shapes.at(7).set(before, { type: 'circle', radius: 1 })).toBe(
+      before,
+    );
+    expect(circle.set({ type: 'square', side: 1 }, 3)).toEqual({
+      type: 'square',
+      side: 1,
+    });
+  });
+
+  test('focus reads and writes a signal', () => {
+    const source = signal(user());
+    const before = source.value();
+    const city = focus(source, (L) => L.prop('address').prop('city'));
+    const radii = focus(source, (L) => L.prop('shapes').each().compose(circle));
+    const seen = jest.fn();
+    city.subscribe(seen);
+
+    city.set('Paris');
+    expect(city.value()).toBe('Paris');
+    expect(source.value().shapes).toBe(before.shapes);
+    expect(seen).toHaveBeenCalledWith('Paris');
+
+    radii.update((radius) => radius + 1);
+    expect(radii.value()).toEqual([2]);
+    expect(source.value().address.city).toBe('Paris');
+
+    const missing = focus(source, nickname);
+    const current = source.value();
+    missing.set('A');
+    expect(missing.value()).toBeUndefined();
+    expect(source.value()).toBe(current);
+  });
+
+  test('focus reads and writes a store', () => {
+    const [state, setStore] = store(user());
+    const city = focus([state, setStore], (L) =>
+      L.prop('address').prop('city'),
+    );
+    const name = computed(() => state.name);
+    const compute = jest.fn(() => state.shapes.length);
+    const count = computed(compute);
+    name.subscribe(() => undefined);
+    count.subscribe(() => undefined);
+
+    city.set('Paris');
+    expect(city.value()).toBe('Paris');
+    expect(state.address.city).toBe('Paris');
+    expect(name.value()).toBe('Ada');
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    setStore(['address', 'city'], 'Rome');
+    expect(city.value()).toBe('Rome');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Optics Algebra - composable focus on parts of immutable data
+ * A lens focuses on a part that is always there, a prism on one case of a
+ * union, an optional on a part that may be missing, and a traversal on any
+ * number of parts; composing two optics yields the weaker of the two
+ * Setting through an optic copies the path to the focus and leaves the
+ * original value untouched
+ */
+
+import {
+  computed,
+  Signal,
+  SignalOptions,
+  WritableSignal,
+} from '../core/signal';
+import { SetStore, Store, unwrap } from '../core/store';
+
+export type OpticKind = 'lens' | 'prism' | 'optional' | 'traversal';
+
+type Element<A> = A extends readonly (infer E)[] ? E : never;
+
+/**
+ * Focus on any number of parts of `S`
+ */
+export interface Traversal<S, A> {
+  readonly kind: OpticKind;
+  readonly getAll: (s: S) => A[];
+  readonly modify: (s: S, f: (a: A) => A) => S;
+  readonly set: (s: S, a: A) => S;
+  readonly compose: <B>(other: Traversal<A, B>) => Traversal<S, B>;
+  readonly prop: <K extends keyof A>(key: K) => Traversal<S, A[K]>;
+  readonly at: (index: number) => Traversal<S, Element<A>>;
+  readonly each: () => Traversal<S, Element<A>>;
+}
+
+/**
+ * Focus on at most one part of `S`
+ */
+export interface Optional<S, A> extends Traversal<S, A> {
+  readonly kind: 'lens' | 'prism' | 'optional';
+  readonly getOption: (s: S) => A | undefined;
+  readonly compose: {
+    <B>(other: Optional<A, B>): Optional<S, B>;
+    <B>(other: Traversal<A, B>): Traversal<S, B>;
+  };
+  readonly prop: <K extends keyof A>(key: K) => Optional<S, A[K]>;
+  readonly at: (index: number) => Optional<S, Element<A>>;
+}
+
+/**
+ * Focus on one case of `S`, which can be built back from its part
+ */
+export interface Prism<S, A> extends Optional<S, A> {
+  readonly kind: 'prism';
+  readonly reverseGet: (a: A) => S;
+  readonly compose: {
+    <B>(other: Prism<A, B>): Prism<S, B>;
+    <B>(other: Optional<A, B>): Optional<S, B>;
+    <B>(other: Traversal<A, B>): Traversal<S, B>;
+  };
+}
+
+/**
+ * Focus on exactly one part of `S`
+ */
+export interface Lens<S, A> extends Optional<S, A> {
+  readonly kind: 'lens';
+  readonly get: (s: S) => A;
+  readonly compose: {
+    <B>(other: Lens<A, B>): Lens<S, B>;
+    <B>(other: Optional<A, B>): Optional<S, B>;
+    <B>(other: Traversal<A, B>): Traversal<S, B>;
+  };
+  readonly prop: <K extends keyof A>(key: K) => Lens<S, A[K]>;
+}
+
+/**
+ * Writable view of the parts an optic focuses on: one value for a lens,
+ * maybe one for a prism or optional, a list for a traversal
+ */
+export interface FocusedSignal<A, V = A> extends Signal<V> {
+  readonly set: (value: A) => void;
+  readonly update: (f: (current: A) => A) => void;
+}
+
+/**
+ * What `focus` reads from and writes to: a writable signal, or a store as
+ * returned by `store`
+ */
+export type Focusable<S> = WritableSignal<S> | readonly [Store<S>, SetStore<S>];
+
+// Composing two optics keeps the guarantees both make
+const join = (outer: OpticKind, inner: OpticKind): OpticKind => {
+  if (outer === 'traversal' || inner === 'traversal') {
+    return 'traversal';
+  }
+  return outer === inner ? outer : 'optional';
+};
+
+const setProp = <S>(s: S, key: PropertyKey, value: unknown): S => {
+  if ((s as Record<PropertyKey, unknown>)[key] === value) {
+    return s;
+  }
+  return (
+    Array.isArray(s)
+      ? Object.assign([...s], { [key]: value })
+      : { ...s, [key]: value }
+  ) as S;
+};
+
+// Every optic is a traversal underneath: its kind decides which of the
+// members it gets are part of its type
+const make = <S, A>(
+  kind: OpticKind,
+  getAll: (s: S) => A[],
+  modify: (s: S, f: (a: A) => A) => S,
+  reverseGet?: (a: A) => S,
+): Lens<S, A> & Prism<S, A> => {
+  const instance = {
+    kind,
+    getAll,
+    modify,
+    set: (s: S, a: A) => modify(s, () => a),
+    get: (s: S) => getAll(s)[0],
+    getOption: (s: S): A | undefined => getAll(s)[0],
+    reverseGet: reverseGet as (a: A) => S,
+
+    compose: <B>(other: Traversal<A, B>) => {
+      const inner = other as Partial<Prism<A, B>>;
+      return make<S, B>(
+        join(kind, other.kind),
+        (s) => getAll(s).flatMap(other.getAll),
+        (s, f) => modify(s, (a) => other.modify(a, f)),
+        reverseGet && inner.reverseGet
+          ? (b) => reverseGet(inner.reverseGet!(b))
+          : undefined,
+      );
+    },
+
+    prop: <K extends keyof A>(key: K) =>
+      instance.compose(
+        lens<A, A[K]>(
+          (a) => a[key],
+          (a, value) => setProp(a, key, value),
+        ),
+      ),
+
+    at: (index: number) =>
+      instance.compose(
+        optional<A, Element<A>>(
+          (a) => (a as unknown as Element<A>[])[index],
+          (a, value) =>
+            index >= 0 && index < (a as unknown as unknown[]).length
+              ? setProp(a, index, value)
+              : a,
+        ),
+      ),
+
+    each: () =>
+      instance.compose(
+        traversal<A, Element<A>>(
+          (a) => [...(a as unknown as Element<A>[])],
+          (a, f) => {
+            const items = a as unknown as Element<A>[];
+            const next = items.map(f);
+            return next.every((item, index) => item === items[index])
+              ? a
+              : (next as unknown as A);
+          },
+        ),
+      ),
+  };
+  return instance as unknown as Lens<S, A> & Prism<S, A>;
+};
+
+/**
+ * Lens from a getter and an immutable setter
+ */
+export const lens = <S, A>(
+  get: (s: S) => A,
+  set: (s: S, a: A) => S,
+): Lens<S, A> =>
+  make<S, A>(
+    'lens',
+    (s) => [get(s)],
+    (s, f) => set(s, f(get(s))),
+  );
+
+/**
+ * Prism from a matcher, returning `undefined` for other cases, and a
+ * constructor
+ */
+export const prism = <S, A>(
+  getOption: (s: S) => A | undefined,
+  reverseGet: (a: A) => S,
+): Prism<S, A> =>
+  make<S, A>(
+    'prism',
+    (s) => {
+      const a = getOption(s);
+      return a === undefined ? [] : [a];
+    },
+    (s, f) => {
+      const a = getOption(s);
+      return a === undefined ? s : reverseGet(f(a));
+    },
+    reverseGet,
+  );
+
+/**
+ * Optional from a getter returning `undefined` when the part is missing,
+ * and a setter called only when it is present
+ */
+export const optional = <S, A>(
+  getOption: (s: S) => A | undefined,
+  set: (s: S, a: A) => S,
+): Optional<S, A> =>
+  make<S, A>(
+    'optional',
+    (s) => {
+      const a = getOption(s);
+      return a === undefined ? [] : [a];
+    },
+    (s, f) => {
+      const a = getOption(s);
+      return a === undefined ? s : set(s, f(a));
+    },
+  );
+
+/**
+ * Traversal from a function listing the parts and one updating them all
+ */
+export const traversal = <S, A>(
+  getAll: (s: S) => A[],
+  modify: (s: S, f: (a: A) => A) => S,
+): Traversal<S, A> => make<S, A>('traversal', getAll, modify);
+
+/**
+ * Identity lens, the start of a path: `optic<User>().prop('address')`
+ */
+export const optic = <S>(): Lens<S, S> =>
+  lens<S, S>(
+    (s) => s,
+    (_, a) => a,
+  );
+
+// Reads and updates of a focus source; a store is read through its state,
+// so a focus depends only on the properties its optic visits, and an
+// update writes back the top-level keys the optic copied
+const accessOf = <S>(
+  source: Focusable<S>,
+): { read: () => S; update: (f: (s: S) => S) => void } => {
+  if (!Array.isArray(source)) {
+    const writable = source as WritableSignal<S>;
+    return { read: writable.value, update: writable.update };
+  }
+  const [state, setStore] = source as readonly [Store<S>, SetStore<S>];
+  return {
+    read: () => state as S,
+    update: (f) => {
+      const previous = unwrap(state) as S & object;
+      const next = f(previous) as S & object;
+      if (next === previous) {
+        return;
+      }
+      const before = previous as Record<string, unknown>;
+      setStore((draft) => {
+        const target = draft as Record<string, unknown>;
+        Object.keys(before)
+          .filter((key) => !(key in next))
+          .forEach((key) => delete target[key]);
+        Object.entries(next).forEach(([key, value]) => {
+          if (before[key] !== value) {
+            target[key] = value;
+          }
+        });
+      });
+    },
+  };
+};
+
+/**
+ * Focuses a writable signal or a store through an optic: reading follows
+ * the parent, writing sets the parent to an updated copy
+ * The optic can be built from the identity lens of the parent's type:
+ * `focus(user, (L) => L.prop('address').prop('city'))`
+ */
+export function focus<S, A>(
+  source: Focusable<S>,
+  through: Lens<S, A> | ((root: Lens<S, S>) => Lens<S, A>),
+  options?: SignalOptions<A>,
+): FocusedSignal<A>;
+export function focus<S, A>(
+  source: Focusable<S>,
+  through: Optional<S, A> | ((root: Lens<S, S>) => Optional<S, A>),
+  options?: SignalOptions<A | undefined>,
+): FocusedSignal<A, A | undefined>;
+export function focus<S, A>(
+  source: Focusable<S>,
+  through: Traversal<S, A> | ((root: Lens<S, S>) => Traversal<S, A>),
+  options?: SignalOptions<A[]>,
+): FocusedSignal<A, A[]>;
+export function focus<S, A>(
+  source: Focusable<S>,
+  through: Traversal<S, A> | ((root: Lens<S, S>) => Traversal<S, A>),
+  options?: SignalOptions<unknown>,
+): FocusedSignal<A, unknown> {
+  const target = (
+    typeof through === 'function' ? through(optic<S>()) : through
+  ) as Lens<S, A>;
+  const { read, update } = accessOf(source);
+  const view = (s: S): unknown => {
+    if (target.kind === 'lens') {
+      return target.get(s);
+    }
+    return target.kind === 'traversal' ? target.getAll(s) : target.getOption(s);
+  };
+
+  return {
+    ...computed(() => view(read()), options),
+    set: (value: A) => update((s) => target.set(s, value)),
+    update: (f: (current: A) => A) => update((s) => target.modify(s, f)),
+  };
+}
@@ -3,7 +3,10 @@
  * XState replacement with category-theoretic foundations
  */
 
+import { withDevtools } from '../core/devtools';
 import { Effect, effect } from '../core/effect';
+import { defer, deliver } from '../core/graph';
+import { observable } from '../core/observable';
 
 export interface State<S, A> extends Effect<A> {
   readonly get: () => State<S, S>;
@@ -26,8 +29,13 @@ export const state = <S, A>(
     _setValue: (a: A) => void;
   } = {
     value: baseEffect.value,
+    peek: baseEffect.peek,
     map: baseEffect.map,
     subscribe: baseEffect.subscribe,
+    isClosed: baseEffect.isClosed,
+    [observable]: baseEffect[observable],
+    [Symbol.asyncIterator]: baseEffect[Symbol.asyncIterator],
+    dispose: baseEffect.dispose,
     bind: baseEffect.bind,
     chain: baseEffect.chain,
 
@@ -50,7 +58,7 @@ export const state = <S, A>(
       currentState = s;
     },
 
-    _setValue: baseEffect._set,
+    _setValue: baseEffect.set,
   };
 
   return stateInstance;
@@ -62,24 +70,41 @@ export const state = <S, A>(
 export interface StateMachine<S, A> {
   readonly state: S;
   readonly send: (action: A) => void;
+  // Jumps to a state without an action, e.g. to undo a transition
+  readonly reset: (state: S) => void;
   readonly subscribe: (fn: (state: S) => void) => () => void;
 }
 
+export interface MachineOptions {
+  // Shown by devtools
+  readonly name?: string;
+}
+
 /**
  * Creates a state machine with reducer-like transitions
  */
 export const machine = <S, A>(
   initialState: S,
   reducer: (state: S, action: A) => S,
+  options: MachineOptions = {},
 ): StateMachine<S, A> => {
   let currentState = initialState;
   const subscribers = new Set<(state: S) => void>();
 
   const notify = () => {
-    subscribers.forEach((fn) => fn(currentState));
+    subscribers.forEach((fn) => deliver(fn, currentState));
   };
 
-  return {
+  const moveTo = (state: S, action?: A) => {
+    const from = currentState;
+    currentState = state;
+    withDevtools((hook) =>
+      hook.transition(machineInstance, from, state, action),
+    );
+    defer(notify);
+  };
+
+  const machineInstance: StateMachine<S, A> = {
     get state() {
       return currentState;
     },
@@ -87,8 +112,13 @@ export const machine = <S, A>(
     send: (action: A) => {
       const newState = reducer(currentState, action);
       if (newState !== currentState) {
-        currentState = newState;
-        notify();
+        moveTo(newState, action);
+      }
+    },
+
+    reset: (state: S) => {
+      if (state !== currentState) {
+        moveTo(state);
       }
     },
 
@@ -97,6 +127,11 @@ export const machine = <S, A>(
       return () => subscribers.delete(fn);
     },
   };
+
+  withDevtools((hook) =>
+    hook.created(machineInstance, 'machine', initialState, options.name),
+  );
+  return machineInstance;
 };
 
 /**
@@ -106,6 +141,8 @@ export interface FSM<S extends string, A> {
   readonly current: S;
   readonly send: (action: A) => void;
   readonly can: (action: A) => boolean;
+  // Jumps to a state without a transition, e.g. to undo one
+  readonly reset: (state: S) => void;
   readonly subscribe: (fn: (state: S) => void) => () => void;
 }
 
@@ -122,12 +159,13 @@ export type Transition<S extends string, A> = {
 export const fsm = <S extends string, A>(
   initialState: S,
   transitions: Transition<S, A>[],
+  options: MachineOptions = {},
 ): FSM<S, A> => {
   let currentState = initialState;
   const subscribers = new Set<(state: S) => void>();
 
   const notify = () => {
-    subscribers.forEach((fn) => fn(currentState));
+    subscribers.forEach((fn) => deliver(fn, currentState));
   };
 
   const getTransition = (action: A): Transition<S, A> | undefined => {
@@ -137,7 +175,14 @@ export const fsm = <S extends string, A>(
     );
   };
 
-  return {
+  const moveTo = (state: S, action?: A) => {
+    const from = currentState;
+    currentState = state;
+    withDevtools((hook) => hook.transition(fsmInstance, from, state, action));
+    defer(notify);
+  };
+
+  const fsmInstance: FSM<S, A> = {
     get current() {
       return currentState;
     },
@@ -145,8 +190,7 @@ export const fsm = <S extends string, A>(
     send: (action: A) => {
       const transition = getTransition(action);
       if (transition) {
-        currentState = transition.to;
-        notify();
+        moveTo(transition.to, action);
       }
     },
 
@@ -154,23 +198,23 @@ export const fsm = <S extends string, A>(
       return getTransition(action) !== undefined;
     },
 
+    reset: (state: S) => {
+      if (state !== currentState) {
+        moveTo(state);
+      }
+    },
+
     subscribe: (fn: (state: S) => void) => {
       subscribers.add(fn);
       return () => subscribers.delete(fn);
     },
   };
-};
 
-/**
- * Natural transformation: State → Signal (lens view)
- * Simplified implementation that maps over the value
- */
-export const lens =
-  <S, A, B>(f: (a: A) => B) =>
-  (stateEffect: State<S, A>): State<S, B> => {
-    // For now, just cast the result - this is a simplified implementation
-    return stateEffect.map(f) as unknown as State<S, B>;
-  };
+  withDevtools((hook) =>
+    hook.created(fsmInstance, 'machine', initialState, options.name),
+  );
+  return fsmInstance;
+};
 
 /**
  * Combines multiple state machines
@@ -185,11 +229,13 @@ export const combine = <S1, S2, A1, A2>(
   const subscribers = new Set<(state: { m1: S1; m2: S2 }) => void>();
 
   const notify = () => {
-    subscribers.forEach((fn) => fn({ m1: machine1.state, m2: machine2.state }));
+    subscribers.forEach((fn) =>
+      deliver(fn, { m1: machine1.state, m2: machine2.state }),
+    );
   };
 
-  machine1.subscribe(notify);
-  machine2.subscribe(notify);
+  machine1.subscribe(() => defer(notify));
+  machine2.subscribe(() => defer(notify));
 
   return {
     get state() {
@@ -204,6 +250,11 @@ export const combine = <S1, S2, A1, A2>(
       }
     },
 
+    reset: (state) => {
+      machine1.reset(state.m1);
+      machine2.reset(state.m2);
+    },
+
     subscribe: (fn) => {
       subscribers.add(fn);
       return () => subscribers.delete(fn);
@@ -1,9 +1,18 @@
 /**
  * Time Algebra - Clock ticks and temporal operations
  * Extends Effect with time-based operations
+ * Timers go through the signal's scheduler (the app-wide one by default),
+ * so tests can drive time by replacing it
+ * Derived timers complete once their source has completed and nothing is
+ * pending; a timeout completes as soon as it settles
  */
 
 import { Effect, effect } from '../core/effect';
+import { always } from '../core/equality';
+import { observable } from '../core/observable';
+import { getScheduler, TimerHandle } from '../core/scheduler';
+import { onDispose, withCleanup } from '../core/scope';
+import { SignalOptions, WritableSignal } from '../core/signal';
 
 export interface Time<A> extends Effect<A> {
   readonly delay: (ms: number) => Time<A>;
@@ -14,103 +23,97 @@ export interface Time<A> extends Effect<A> {
 /**
  * Creates a Time effect with temporal operations
  */
-export const time = <A>(initial: A): Time<A> & { _set: (value: A) => void } => {
-  const baseEffect = effect(initial);
+export const time = <A>(
+  initial: A,
+  options?: SignalOptions<A>,
+): Time<A> & WritableSignal<A> => {
+  const baseEffect = effect(initial, options);
 
-  const timeInstance: Time<A> & { _set: (value: A) => void } = {
+  const timeInstance: Time<A> & WritableSignal<A> = {
     value: baseEffect.value,
+    peek: baseEffect.peek,
     map: baseEffect.map,
     subscribe: baseEffect.subscribe,
+    isClosed: baseEffect.isClosed,
+    [observable]: baseEffect[observable],
+    [Symbol.asyncIterator]: baseEffect[Symbol.asyncIterator],
+    dispose: baseEffect.dispose,
     bind: baseEffect.bind,
     chain: baseEffect.chain,
+    set: baseEffect.set,
+    update: baseEffect.update,
+    asReadonly: baseEffect.asReadonly,
+    complete: baseEffect.complete,
     _set: baseEffect._set,
 
     delay: (ms: number): Time<A> => {
-      const delayed = time(baseEffect.value());
+      const delayed = time(baseEffect.value(), options);
+      const scheduler = getScheduler(options?.scheduler);
+      const pending = new Set<TimerHandle>();
+      let sourceCompleted = false;
 
-      setTimeout(() => {
-        delayed._set(baseEffect.value());
-      }, ms);
+      const schedule = (newValue: A) => {
+        const timeoutId = scheduler.setTimeout(() => {
+          pending.delete(timeoutId);
+          delayed.set(newValue);
+          if (sourceCompleted && pending.size === 0) {
+            delayed.complete();
+          }
+        }, ms);
+        pending.add(timeoutId);
+      };
+
+      schedule(baseEffect.value());
 
       // Subscribe to original changes with delay
-      baseEffect.subscribe((newValue) => {
-        setTimeout(() => {
-          delayed._set(newValue);
-        }, ms);
+      const unsubscribe = baseEffect.subscribe(schedule, undefined, () => {
+        sourceCompleted = true;
+        if (pending.size === 0) {
+          delayed.complete();
+        }
       });
 
-      return delayed;
+      return withCleanup(delayed, () => {
+        unsubscribe();
+        pending.forEach(scheduler.clearTimeout);
+        pending.clear();
+      });
     },
 
     timeout: (ms: number): Time<A | Error> => {
-      const timedOut = time<A | Error>(baseEffect.value());
+      const timedOut = time<A | Error>(
+        baseEffect.value(),
+        options as SignalOptions<A | Error>,
+      );
+      const scheduler = getScheduler(options?.scheduler);
       let hasCompleted = false;
 
       // Set timeout
-      const timeoutId = setTimeout(() => {
+      const timeoutId = scheduler.setTimeout(() => {
         if (!hasCompleted) {
-          timedOut._set(new Error(`Timeout after ${ms}ms`));
+          hasCompleted = true;
+          timedOut.set(new Error(`Timeout after ${ms}ms`));
+          timedOut.complete();
         }
       }, ms);
 
       // Subscribe to original completion
-      baseEffect.subscribe((newValue) => {
+      const unsubscribe = baseEffect.subscribe((newValue) => {
         if (!hasCompleted) {
           hasCompleted = true;
-          clearTimeout(timeoutId);
-          timedOut._set(newValue);
+          scheduler.clearTimeout(timeoutId);
+          timedOut.set(newValue);
+          timedOut.complete();
         }
       });
 
-      return timedOut;
+      return withCleanup(timedOut, () => {
+        unsubscribe();
+        scheduler.clearTimeout(timeoutId);
+      });
     },
 
-    interval: (ms: number): Time<A> => {
-      const intervalTime = time(baseEffect.value());
-      let intervalId: NodeJS.Timeout;
-      let subscriberCount = 0;
-      let tickCount = 0;
-
-      // Create a new Time object with custom subscribe
-      const customIntervalTime: Time<A> & { _set: (value: A) => void } = {
-        ...intervalTime,
-        subscribe: (fn) => {
-          subscriberCount++;
-
-          // Start interval when first subscriber is added
-          if (subscriberCount === 1) {
-            intervalId = setInterval(() => {
-              tickCount++;
-              // Force a change by setting a slightly different value
-              // For primitive types, we can append tick count
-              const currentValue = baseEffect.value();
-              if (typeof currentValue === 'number') {
-                intervalTime._set((currentValue + tickCount * 0.000001) as A);
-              } else if (typeof currentValue === 'string') {
-                intervalTime._set((currentValue + '') as A);
-              } else {
-                // For objects, create a new reference
-                intervalTime._set({
-                  ...(currentValue as object),
-                  _tick: tickCount,
-                } as A);
-              }
-            }, ms);
-          }
-
-          const unsubscribe = intervalTime.subscribe(fn);
-          return () => {
-            subscriberCount--;
-            if (subscriberCount === 0 && intervalId) {
-              clearInterval(intervalId);
-            }
-            unsubscribe();
-          };
-        },
-      };
-
-      return customIntervalTime;
-    },
+    interval: (ms: number): Time<A> => ticker(ms, baseEffect.value, options),
   };
 
   return timeInstance;
@@ -119,8 +122,12 @@ export const time = <A>(initial: A): Time<A> & { _set: (value: A) => void } => {
 /**
  * Creates a delayed effect
  */
-export const delay = <A>(ms: number, value: A): Time<A> => {
-  return time(value).delay(ms);
+export const delay = <A>(
+  ms: number,
+  value: A,
+  options?: SignalOptions<A>,
+): Time<A> => {
+  return time(value, options).delay(ms);
 };
 
 /**
@@ -128,86 +135,138 @@ export const delay = <A>(ms: number, value: A): Time<A> => {
  */
 export const timeout = <A>(ms: number, effect: Effect<A>): Time<A | Error> => {
   const timeEffect = time(effect.value());
-  effect.subscribe((value) => timeEffect._set(value));
-  return timeEffect.timeout(ms);
+  const unsubscribe = effect.subscribe((value) => timeEffect.set(value));
+  return withCleanup(timeEffect.timeout(ms), unsubscribe);
 };
 
-/**
- * Creates an interval effect
- */
-export const interval = <A>(ms: number, value: A): Time<A> => {
-  const intervalTime = time(value);
-  let intervalId: NodeJS.Timeout;
+// Re-emits `read()` every `ms` while subscribed; the timer starts with the
+// first subscriber and stops with the last one
+const ticker = <A>(
+  ms: number,
+  read: () => A,
+  options?: SignalOptions<A>,
+): Time<A> => {
+  // Every tick re-emits the value, so ticks never compare equal
+  const intervalTime = time(read(), { ...options, equals: always });
+  const scheduler = getScheduler(options?.scheduler);
+  let timerId: TimerHandle;
   let subscriberCount = 0;
-  let tickCount = 0;
+
+  const tick = () => {
+    timerId = scheduler.setTimeout(() => {
+      tick();
+      intervalTime.set(read());
+    }, ms);
+  };
 
   // Create a new Time object with custom subscribe
-  const customIntervalTime: Time<A> & { _set: (value: A) => void } = {
+  const customIntervalTime: Time<A> & WritableSignal<A> = {
     ...intervalTime,
-    subscribe: (fn) => {
+    subscribe: (fn, onError, onComplete) => {
       subscriberCount++;
 
       // Start interval when first subscriber is added
       if (subscriberCount === 1) {
-        intervalId = setInterval(() => {
-          tickCount++;
-          // Force a change by setting a slightly different value
-          if (typeof value === 'number') {
-            intervalTime._set((value + tickCount * 0.000001) as A);
-          } else if (typeof value === 'string') {
-            intervalTime._set((value + '') as A);
-          } else {
-            // For objects, create a new reference
-            intervalTime._set({ ...(value as object), _tick: tickCount } as A);
-          }
-        }, ms);
+        tick();
       }
 
-      const unsubscribe = intervalTime.subscribe(fn);
+      const unsubscribe = intervalTime.subscribe(fn, onError, onComplete);
       return () => {
         subscriberCount--;
-        if (subscriberCount === 0 && intervalId) {
-          clearInterval(intervalId);
+        if (subscriberCount === 0) {
+          scheduler.clearTimeout(timerId);
         }
         unsubscribe();
       };
     },
+    // Completing stops the timer for good
+    complete: () => {
+      scheduler.clearTimeout(timerId);
+      intervalTime.complete();
+    },
+    dispose: () => {
+      scheduler.clearTimeout(timerId);
+      intervalTime.dispose();
+    },
   };
 
+  onDispose(customIntervalTime.dispose);
   return customIntervalTime;
 };
 
+/**
+ * Creates an interval effect
+ */
+export const interval = <A>(
+  ms: number,
+  value: A,
+  options?: SignalOptions<A>,
+): Time<A> => ticker(ms, () => value, options);
+
 /**
  * Debounce utility using Time algebra
  */
-export const debounce = <A>(ms: number, effect: Effect<A>): Time<A> => {
-  const debounced = time(effect.value());
-  let timeoutId: NodeJS.Timeout;
-
-  effect.subscribe((newValue) => {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => {
-      debounced._set(newValue);
-    }, ms);
-  });
+export const debounce = <A>(
+  ms: number,
+  effect: Effect<A>,
+  options?: SignalOptions<A>,
+): Time<A> => {
+  const debounced = time(effect.value(), options);
+  const scheduler = getScheduler(options?.scheduler);
+  let timeoutId: TimerHandle;
+  let sourceCompleted = false;
+  let waiting = false;
 
-  return debounced;
+  const unsubscribe = effect.subscribe(
+    (newValue) => {
+      scheduler.clearTimeout(timeoutId);
+      waiting = true;
+      timeoutId = scheduler.setTimeout(() => {
+        waiting = false;
+        debounced.set(newValue);
+        if (sourceCompleted) {
+          debounced.complete();
+        }
+      }, ms);
+    },
+    undefined,
+    () => {
+      sourceCompleted = true;
+      if (!waiting) {
+        debounced.complete();
+      }
+    },
+  );
+
+  return withCleanup(debounced, () => {
+    unsubscribe();
+    scheduler.clearTimeout(timeoutId);
+  });
 };
 
 /**
  * Throttle utility using Time algebra
  */
-export const throttle = <A>(ms: number, effect: Effect<A>): Time<A> => {
-  const throttled = time(effect.value());
+export const throttle = <A>(
+  ms: number,
+  effect: Effect<A>,
+  options?: SignalOptions<A>,
+): Time<A> => {
+  const throttled = time(effect.value(), options);
+  const scheduler = getScheduler(options?.scheduler);
   let lastExecution = 0;
 
-  effect.subscribe((newValue) => {
-    const now = Date.now();
-    if (now - lastExecution >= ms) {
-      throttled._set(newValue);
-      lastExecution = now;
-    }
-  });
+  const unsubscribe = effect.subscribe(
+    (newValue) => {
+      const now = scheduler.now();
+      if (now - lastExecution >= ms) {
+        throttled.set(newValue);
+        lastExecution = now;
+      }
+    },
+    undefined,
+    throttled.complete,
+  );
 
-  return throttled;
+  return withCleanup(throttled, unsubscribe);
 };
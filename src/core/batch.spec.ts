@@ -0,0 +1,107 @@
+import { machine } from '../algebras/state';
+
+import { batch, transaction } from './batch';
+import { computed, signal } from './signal';
+
+describe('batch', () => {
+  test('notifies each subscriber once per batch', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const sum = computed(() => a.value() + b.value());
+    const seenA = jest.fn();
+    const seenSum = jest.fn();
+    a.subscribe(seenA);
+    sum.subscribe(seenSum);
+
+    batch(() => {
+      a._set(10);
+      a._set(20);
+      b._set(30);
+    });
+
+    expect(seenA).toHaveBeenCalledTimes(1);
+    expect(seenA).toHaveBeenCalledWith(20);
+    expect(seenSum).toHaveBeenCalledTimes(1);
+    expect(seenSum).toHaveBeenCalledWith(50);
+  });
+
+  test('nested batches flush when the outermost one ends', () => {
+    const a = signal(0);
+    const seen = jest.fn();
+    a.subscribe(seen);
+
+    batch(() => {
+      batch(() => a._set(1));
+      expect(seen).not.toHaveBeenCalled();
+      a._set(2);
+    });
+
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveBeenCalledWith(2);
+  });
+
+  test('machines notify once per batch', () => {
+    const counter = machine(0, (state: number, action: 'inc') =>
+      action === 'inc' ? state + 1 : state,
+    );
+    const seen = jest.fn();
+    counter.subscribe(seen);
+
+    batch(() => {
+      counter.send('inc');
+      counter.send('inc');
+    });
+
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveBeenCalledWith(2);
+  });
+});
+
+describe('transaction', () => {
+  test('rolls back every touched signal when the callback throws', () => {
+    const a = signal(1);
+    const b = signal('x');
+    const seen = jest.fn();
+    a.subscribe(seen);
+
+    expect(() =>
+      transaction(() => {
+        a._set(2);
+        b._set('y');
+        throw new Error('abort');
+      }),
+    ).toThrow('abort');
+
+    expect(a.value()).toBe(1);
+    expect(b.value()).toBe('x');
+    expect(seen).not.toHaveBeenCalled();
+  });
+
+  test('commits and returns the result on success', () => {
+    const a = signal(1);
+    const result = transaction(() => {
+      a._set(5);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(a.value()).toBe(5);
+  });
+
+  test('rolls back writes made after await when the promise rejects', async () => {
+    const a = signal(1);
+    const b = signal(1);
+
+    await expect(
+      transaction(async (tx) => {
+        a._set(2);
+        await Promise.resolve();
+        tx.set(b, 2);
+        throw new Error('abort');
+      }),
+    ).rejects.toThrow('abort');
+
+    expect(a.value()).toBe(1);
+    expect(b.value()).toBe(1);
+  });
+});
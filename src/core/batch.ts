@@ -0,0 +1,54 @@
+/**
+ * Batching - groups signal writes into a single notification wave
+ * Subscribers, derived signals and machines observe only the final state
+ */
+
+import { batched, Journal, recording, rollback } from './graph';
+import { WritableSignal } from './signal';
+
+/**
+ * Runs `fn` with notifications held until the outermost batch returns
+ * Batches nest; each derived signal recomputes at most once per batch
+ */
+export const batch = <R>(fn: () => R): R => batched(fn);
+
+/**
+ * Handle for writes made after the synchronous part of a transaction
+ */
+export interface Transaction {
+  readonly set: <A>(target: WritableSignal<A>, value: A) => void;
+}
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown>)?.then === 'function';
+
+/**
+ * Runs `fn` as a batch that rolls every touched signal back if it throws
+ * For async callbacks, writes made through `tx.set` after an `await` are
+ * recorded too, and a rejected promise restores all of them
+ */
+export const transaction = <R>(fn: (tx: Transaction) => R): R => {
+  const journal: Journal = new Map();
+  const tx: Transaction = {
+    set: (target, value) =>
+      recording(journal, () => batched(() => target.set(value))),
+  };
+
+  return batched(() => {
+    let result: R;
+    try {
+      result = recording(journal, () => fn(tx));
+    } catch (error) {
+      rollback(journal);
+      throw error;
+    }
+
+    if (isThenable(result)) {
+      return Promise.resolve(result).catch((error) => {
+        rollback(journal);
+        throw error;
+      }) as R;
+    }
+    return result;
+  });
+};
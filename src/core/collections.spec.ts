@@ -0,0 +1,148 @@
+import { batch } from './batch';
+import { mapArray, signalArray, signalMap, signalSet } from './collections';
+import { createScope, onDispose } from './scope';
+import { computed } from './signal';
+
+describe('signalArray', () => {
+  test('updates in place and reports change records once per batch', () => {
+    const list = signalArray(['a', 'b']);
+    const changes = jest.fn();
+    list.onChange(changes);
+
+    batch(() => {
+      list.push('c');
+      list.setAt(0, 'A');
+      list.move(2, 0);
+      list.removeAt(1);
+    });
+
+    expect(list.value()).toEqual(['c', 'b']);
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect(changes.mock.calls[0][0]).toEqual([
+      { type: 'insert', index: 2, value: 'c' },
+      { type: 'update', index: 0, value: 'A', previous: 'a' },
+      { type: 'move', from: 2, to: 0, value: 'c' },
+      { type: 'remove', index: 1, value: 'A' },
+    ]);
+  });
+
+  test('length only notifies when the number of items changes', () => {
+    const list = signalArray([1, 2]);
+    const seen = jest.fn();
+    list.length.subscribe(seen);
+
+    list.setAt(0, 3);
+    list.move(0, 1);
+    expect(seen).not.toHaveBeenCalled();
+
+    list.push(4);
+    list.clear();
+    expect(seen.mock.calls).toEqual([[3], [0]]);
+  });
+});
+
+describe('signalMap', () => {
+  test('get depends on its key only', () => {
+    const users = signalMap([['ada', 36]]);
+    const compute = jest.fn(() => users.get('ada'));
+    const age = computed(compute);
+    age.subscribe(() => undefined);
+
+    users.set('grace', 45);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    users.set('ada', 37);
+    expect(age.value()).toBe(37);
+    expect(users.size.value()).toBe(2);
+  });
+
+  test('reports inserts, updates and removals', () => {
+    const users = signalMap<string, number>();
+    const changes = jest.fn();
+    users.onChange(changes);
+
+    users.set('ada', 36);
+    users.set('ada', 37);
+    users.delete('ada');
+
+    expect(changes.mock.calls.flat(2)).toEqual([
+      { type: 'insert', key: 'ada', value: 36 },
+      { type: 'update', key: 'ada', value: 37, previous: 36 },
+      { type: 'remove', key: 'ada', value: 37 },
+    ]);
+    expect(users.value().size).toBe(0);
+  });
+});
+
+describe('signalSet', () => {
+  test('has depends on its value only', () => {
+    const selected = signalSet([1]);
+    const compute = jest.fn(() => selected.has(2));
+    const isSelected = computed(compute);
+    isSelected.subscribe(() => undefined);
+
+    selected.add(3);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    selected.add(2);
+    expect(isSelected.value()).toBe(true);
+    selected.delete(2);
+    expect(isSelected.value()).toBe(false);
+    expect([...selected.value()]).toEqual([1, 3]);
+  });
+});
+
+describe('mapArray', () => {
+  test('maps new items only and follows moves through the index', () => {
+    const list = signalArray([{ id: 1 }, { id: 2 }]);
+    const map = jest.fn((item: { id: number }, index) =>
+      computed(() => `${index.value()}:${item.id}`),
+    );
+    const rows = mapArray(list, map);
+
+    expect(rows.value().map((row) => row.value())).toEqual(['0:1', '1:2']);
+
+    list.push({ id: 3 });
+    list.move(2, 0);
+    expect(rows.value().map((row) => row.value())).toEqual([
+      '0:3',
+      '1:1',
+      '2:2',
+    ]);
+    expect(map).toHaveBeenCalledTimes(3);
+  });
+
+  test('re-maps a keyed item only when it changed', () => {
+    const list = signalArray([
+      { id: 1, title: 'write' },
+      { id: 2, title: 'test' },
+    ]);
+    const map = jest.fn((item: { id: number; title: string }) => item.title);
+    const titles = mapArray(list, map, { key: (item) => item.id });
+    titles.subscribe(() => undefined);
+
+    list.setAt(1, { id: 2, title: 'ship' });
+
+    expect(titles.value()).toEqual(['write', 'ship']);
+    expect(map).toHaveBeenCalledTimes(3);
+  });
+
+  test('disposes the scope of removed items', () => {
+    const list = signalArray(['a', 'b']);
+    const cleanups: string[] = [];
+    const scope = createScope();
+    const rows = scope.run(() =>
+      mapArray(list, (item) => {
+        onDispose(() => cleanups.push(item));
+        return item;
+      }),
+    );
+    rows.subscribe(() => undefined);
+
+    list.removeAt(0);
+    expect(cleanups).toEqual(['a']);
+
+    scope.dispose();
+    expect(cleanups).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Reactive Collections - arrays, maps and sets updated in place
+ * Each collection is a signal of its current contents and reports every
+ * update as structured change records, delivered once per batch
+ * Maps and sets track reads key by key; `mapArray` projects a list item by
+ * item, re-running the projection only for items that changed
+ */
+
+import {
+  createNode,
+  defer,
+  deliver,
+  ReactiveNode,
+  track,
+  write,
+} from './graph';
+import { createScope, Scope, withCleanup } from './scope';
+import {
+  computed,
+  ReadonlySignal,
+  Signal,
+  signal,
+  untrack,
+  WritableSignal,
+} from './signal';
+
+export type ArrayChange<A> =
+  | { readonly type: 'insert'; readonly index: number; readonly value: A }
+  | { readonly type: 'remove'; readonly index: number; readonly value: A }
+  | {
+      readonly type: 'update';
+      readonly index: number;
+      readonly value: A;
+      readonly previous: A;
+    }
+  | {
+      readonly type: 'move';
+      readonly from: number;
+      readonly to: number;
+      readonly value: A;
+    };
+
+export type MapChange<K, V> =
+  | { readonly type: 'insert'; readonly key: K; readonly value: V }
+  | { readonly type: 'remove'; readonly key: K; readonly value: V }
+  | {
+      readonly type: 'update';
+      readonly key: K;
+      readonly value: V;
+      readonly previous: V;
+    };
+
+export type SetChange<A> =
+  | { readonly type: 'insert'; readonly value: A }
+  | { readonly type: 'remove'; readonly value: A };
+
+/**
+ * Listener receiving the change records of a batch, in order
+ */
+export type ChangeListener<C> = (changes: readonly C[]) => void;
+
+export interface SignalArray<A> extends Signal<readonly A[]> {
+  readonly length: Signal<number>;
+  readonly at: (index: number) => A | undefined;
+  readonly push: (...values: A[]) => void;
+  readonly insert: (index: number, ...values: A[]) => void;
+  readonly removeAt: (index: number) => A | undefined;
+  readonly setAt: (index: number, value: A) => void;
+  readonly move: (from: number, to: number) => void;
+  readonly clear: () => void;
+  readonly onChange: (listener: ChangeListener<ArrayChange<A>>) => () => void;
+}
+
+export interface SignalMap<K, V> extends Signal<ReadonlyMap<K, V>> {
+  readonly size: Signal<number>;
+  readonly get: (key: K) => V | undefined;
+  readonly has: (key: K) => boolean;
+  readonly set: (key: K, value: V) => void;
+  readonly delete: (key: K) => boolean;
+  readonly clear: () => void;
+  readonly onChange: (listener: ChangeListener<MapChange<K, V>>) => () => void;
+}
+
+export interface SignalSet<A> extends Signal<ReadonlySet<A>> {
+  readonly size: Signal<number>;
+  readonly has: (value: A) => boolean;
+  readonly add: (value: A) => void;
+  readonly delete: (value: A) => boolean;
+  readonly clear: () => void;
+  readonly onChange: (listener: ChangeListener<SetChange<A>>) => () => void;
+}
+
+// Change records waiting for the end of the batch, and the version counter
+// the contents and size of a collection derive from
+const changeLog = <C>() => {
+  const version = signal(0);
+  const listeners = new Set<ChangeListener<C>>();
+  let pending: C[] = [];
+
+  const notify = () => {
+    const changes = pending;
+    pending = [];
+    listeners.forEach((listener) => deliver(listener, changes));
+  };
+
+  return {
+    version,
+    record: (...changes: C[]) => {
+      pending.push(...changes);
+      version.update((count) => count + 1);
+      defer(notify);
+    },
+    onChange: (listener: ChangeListener<C>) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// One node per key read, bumped when that key changes; a removed key drops
+// its node once its readers are stale
+const keyNodes = <K>() => {
+  const nodes = new Map<K, ReactiveNode<number>>();
+
+  return {
+    track: (key: K) => {
+      let node = nodes.get(key);
+      if (!node) {
+        node = createNode(0);
+        nodes.set(key, node);
+      }
+      track(node);
+    },
+    touch: (key: K, removed = false) => {
+      const node = nodes.get(key);
+      if (node) {
+        write(node, node.value + 1);
+        if (removed) {
+          nodes.delete(key);
+        }
+      }
+    },
+  };
+};
+
+const derive = <A>(version: WritableSignal<number>, read: () => A): Signal<A> =>
+  computed(() => {
+    version.value();
+    return read();
+  });
+
+/**
+ * Creates an array updated in place; reads depend on the whole list, and
+ * `length` changes only when items are added or removed
+ */
+export const signalArray = <A>(initial: readonly A[] = []): SignalArray<A> => {
+  const items = [...initial];
+  const { version, record, onChange } = changeLog<ArrayChange<A>>();
+  const contents = derive<readonly A[]>(version, () => [...items]);
+
+  const insert = (index: number, ...values: A[]) => {
+    const start = Math.min(Math.max(index, 0), items.length);
+    items.splice(start, 0, ...values);
+    record(
+      ...values.map((value, offset) => ({
+        type: 'insert' as const,
+        index: start + offset,
+        value,
+      })),
+    );
+  };
+
+  const removeAt = (index: number) => {
+    if (index < 0 || index >= items.length) {
+      return undefined;
+    }
+    const [value] = items.splice(index, 1);
+    record({ type: 'remove', index, value });
+    return value;
+  };
+
+  return {
+    ...contents,
+    length: derive(version, () => items.length),
+    at: (index: number) => {
+      version.value();
+      return items[index];
+    },
+    push: (...values: A[]) => insert(items.length, ...values),
+    insert,
+    removeAt,
+    setAt: (index: number, value: A) => {
+      if (index < 0 || index > items.length) {
+        return;
+      }
+      if (index === items.length) {
+        insert(index, value);
+        return;
+      }
+      const previous = items[index];
+      if (previous === value) {
+        return;
+      }
+      items[index] = value;
+      record({ type: 'update', index, value, previous });
+    },
+    move: (from: number, to: number) => {
+      if (from === to || from < 0 || from >= items.length) {
+        return;
+      }
+      const target = Math.min(Math.max(to, 0), items.length - 1);
+      const [value] = items.splice(from, 1);
+      items.splice(target, 0, value);
+      record({ type: 'move', from, to: target, value });
+    },
+    clear: () => {
+      // Removed from the end, so every record's index is still valid
+      const removed = items.splice(0).map((value, index) => ({
+        type: 'remove' as const,
+        index,
+        value,
+      }));
+      if (removed.length > 0) {
+        record(...removed.reverse());
+      }
+    },
+    onChange,
+  };
+};
+
+/**
+ * Creates a map updated in place; `get` and `has` depend on their key only
+ */
+export const signalMap = <K, V>(
+  entries: Iterable<readonly [K, V]> = [],
+): SignalMap<K, V> => {
+  const map = new Map<K, V>(entries);
+  const { version, record, onChange } = changeLog<MapChange<K, V>>();
+  const keys = keyNodes<K>();
+
+  const remove = (key: K) => {
+    if (!map.has(key)) {
+      return false;
+    }
+    const value = map.get(key) as V;
+    map.delete(key);
+    keys.touch(key, true);
+    record({ type: 'remove', key, value });
+    return true;
+  };
+
+  return {
+    ...derive<ReadonlyMap<K, V>>(version, () => new Map(map)),
+    size: derive(version, () => map.size),
+    get: (key: K) => {
+      keys.track(key);
+      return map.get(key);
+    },
+    has: (key: K) => {
+      keys.track(key);
+      return map.has(key);
+    },
+    set: (key: K, value: V) => {
+      const present = map.has(key);
+      const previous = map.get(key) as V;
+      if (present && previous === value) {
+        return;
+      }
+      map.set(key, value);
+      keys.touch(key);
+      record(
+        present
+          ? { type: 'update', key, value, previous }
+          : { type: 'insert', key, value },
+      );
+    },
+    delete: remove,
+    clear: () => [...map.keys()].forEach(remove),
+    onChange,
+  };
+};
+
+/**
+ * Creates a set updated in place; `has` depends on its value only
+ */
+export const signalSet = <A>(values: Iterable<A> = []): SignalSet<A> => {
+  const set = new Set<A>(values);
+  const { version, record, onChange } = changeLog<SetChange<A>>();
+  const keys = keyNodes<A>();
+
+  const remove = (value: A) => {
+    if (!set.delete(value)) {
+      return false;
+    }
+    keys.touch(value, true);
+    record({ type: 'remove', value });
+    return true;
+  };
+
+  return {
+    ...derive<ReadonlySet<A>>(version, () => new Set(set)),
+    size: derive(version, () => set.size),
+    has: (value: A) => {
+      keys.track(value);
+      return set.has(value);
+    },
+    add: (value: A) => {
+      if (set.has(value)) {
+        return;
+      }
+      set.add(value);
+      keys.touch(value);
+      record({ type: 'insert', value });
+    },
+    delete: remove,
+    clear: () => [...set].forEach(remove),
+    onChange,
+  };
+};
+
+export interface MapArrayOptions<A> {
+  // Identifies an item across updates; defaults to the item itself
+  readonly key?: (item: A) => unknown;
+}
+
+interface Mapped<A, B> {
+  readonly item: A;
+  readonly index: WritableSignal<number>;
+  readonly scope: Scope;
+  readonly result: B;
+}
+
+/**
+ * Projects every item of a list, keeping the results of items that are
+ * still present: `map` runs once per new or changed item, in a scope that is
+ * disposed when the item leaves the list, and follows moves through `index`
+ */
+export const mapArray = <A, B>(
+  source: ReadonlySignal<readonly A[]>,
+  map: (item: A, index: ReadonlySignal<number>) => B,
+  options: MapArrayOptions<A> = {},
+): Signal<readonly B[]> => {
+  const keyOf = options.key ?? ((item: A): unknown => item);
+  const owner = createScope();
+  let entries = new Map<unknown, Mapped<A, B>[]>();
+
+  const create = (item: A, position: number): Mapped<A, B> => {
+    const scope = owner.run(createScope);
+    return scope.run(() => {
+      const index = signal(position);
+      return { item, index, scope, result: map(item, index.asReadonly()) };
+    });
+  };
+
+  const results = computed(() => {
+    const items = source.value();
+    return untrack(() => {
+      const next = new Map<unknown, Mapped<A, B>[]>();
+      const mapped = items.map((item, position) => {
+        const key = keyOf(item);
+        let entry = entries.get(key)?.shift();
+        if (entry && entry.item !== item) {
+          entry.scope.dispose();
+          entry = undefined;
+        }
+        if (entry) {
+          entry.index.set(position);
+        } else {
+          entry = create(item, position);
+        }
+        next.set(key, [...(next.get(key) ?? []), entry]);
+        return entry.result;
+      });
+
+      // Whatever was not reused has left the list
+      entries.forEach((stale) => stale.forEach(({ scope }) => scope.dispose()));
+      entries = next;
+      return mapped;
+    });
+  });
+
+  return withCleanup(results, () => {
+    entries = new Map();
+    owner.dispose();
+  });
+};
@@ -0,0 +1,92 @@
+import { batch } from './batch';
+import { combineLatest, struct, zip } from './combine';
+import { effect, sequence } from './effect';
+import { signal } from './signal';
+
+describe('combinators', () => {
+  test('combineLatest emits one consistent tuple per change', () => {
+    const name = signal('Ada');
+    const age = signal(36);
+    const both = combineLatest([name, age]);
+    const seen: [string, number][] = [];
+    both.subscribe((value) => seen.push(value));
+
+    batch(() => {
+      name.set('Grace');
+      age.set(45);
+    });
+    age.set(46);
+
+    expect(seen).toEqual([
+      ['Grace', 45],
+      ['Grace', 46],
+    ]);
+  });
+
+  test('struct keeps the keys of its sources', () => {
+    const user = signal({ name: 'Ada' });
+    const settings = signal({ theme: 'dark' });
+    const state = struct({ user, settings });
+
+    settings.set({ theme: 'light' });
+
+    const { user: u, settings: s } = state.value();
+    expect(u.name).toBe('Ada');
+    expect(s.theme).toBe('light');
+  });
+
+  test('zip pairs the n-th change of every source', () => {
+    const letters = signal('a');
+    const numbers = signal(1);
+    const pairs = zip([letters, numbers]);
+    const seen: [string, number][] = [];
+    pairs.subscribe((value) => seen.push(value));
+
+    letters.set('b');
+    letters.set('c');
+    expect(seen).toEqual([]);
+
+    numbers.set(2);
+    numbers.set(3);
+    expect(pairs.value()).toEqual(['c', 3]);
+    expect(seen).toEqual([
+      ['b', 2],
+      ['c', 3],
+    ]);
+  });
+
+  test('zip completes once a completed source runs dry', () => {
+    const letters = signal('a');
+    const numbers = signal(1);
+    const pairs = zip([letters, numbers]);
+
+    letters.set('b');
+    letters.complete();
+    expect(pairs.isClosed()).toBe(false);
+
+    numbers.set(2);
+    expect(pairs.value()).toEqual(['b', 2]);
+    expect(pairs.isClosed()).toBe(true);
+  });
+
+  test('sequence emits the whole array once per change', () => {
+    const effects = [effect(1), effect(2), effect(3)];
+    const all = sequence(effects);
+    const seen = jest.fn();
+    all.subscribe(seen);
+
+    effects[1].set(20);
+    effects[2].set(30);
+    effects[1].set(21);
+
+    expect(seen.mock.calls).toEqual([
+      [[1, 20, 3]],
+      [[1, 20, 30]],
+      [[1, 21, 30]],
+    ]);
+
+    all.dispose();
+    effects[0].set(10);
+    expect(seen).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Combinators - many signals into one
+ * Each combinator reads or subscribes to every source exactly once and
+ * emits a consistent tuple or record
+ * `combineLatest` and `struct` complete once every source has completed,
+ * `zip` once a completed source has no buffered change left
+ */
+
+import { fail, nodeOf } from './graph';
+import { withCleanup } from './scope';
+import {
+  computed,
+  ownedReadonly,
+  ReadonlySignal,
+  Signal,
+  signal,
+  SignalOptions,
+  SignalValues,
+} from './signal';
+
+/**
+ * Values of a record of signals, key by key
+ */
+export type StructValues<R extends Record<string, ReadonlySignal<unknown>>> = {
+  [K in keyof R]: R[K] extends ReadonlySignal<infer A> ? A : never;
+};
+
+/**
+ * Latest value of every source as a tuple; a batch touching several
+ * sources emits once
+ */
+export const combineLatest = <S extends readonly ReadonlySignal<unknown>[]>(
+  sources: [...S],
+  options?: SignalOptions<SignalValues<S>>,
+): Signal<SignalValues<S>> =>
+  computed(
+    () => sources.map((source) => source.value()) as SignalValues<S>,
+    options,
+  );
+
+/**
+ * Latest value of every source as a record that keeps each key's type
+ */
+export const struct = <R extends Record<string, ReadonlySignal<unknown>>>(
+  sources: R,
+  options?: SignalOptions<StructValues<R>>,
+): Signal<StructValues<R>> =>
+  computed(() => {
+    const values = {} as StructValues<R>;
+    (Object.keys(sources) as (keyof R)[]).forEach((key) => {
+      values[key] = sources[key].value() as StructValues<R>[typeof key];
+    });
+    return values;
+  }, options);
+
+/**
+ * Pairs the n-th change of every source: starts with the current values and
+ * emits again once each source has changed since the last emission
+ */
+export const zip = <S extends readonly ReadonlySignal<unknown>[]>(
+  sources: [...S],
+): Signal<SignalValues<S>> => {
+  const zipped = signal(
+    sources.map((source) => source.peek()) as SignalValues<S>,
+  );
+  if (sources.some((source) => source.isClosed())) {
+    zipped.complete();
+    return ownedReadonly(zipped);
+  }
+
+  const buffers: unknown[][] = sources.map(() => []);
+  const completed = sources.map(() => false);
+  const failZipped = (error: unknown) => fail(nodeOf(zipped.value)!, error);
+
+  const release = () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+
+  // No further tuple can form once a completed source has run dry
+  const completeIfExhausted = () => {
+    if (completed.some((done, index) => done && buffers[index].length === 0)) {
+      release();
+      zipped.complete();
+    }
+  };
+
+  const unsubscribes = sources.map((source, index) =>
+    source.subscribe(
+      (value) => {
+        buffers[index].push(value);
+        if (buffers.every((buffer) => buffer.length > 0)) {
+          zipped.set(
+            buffers.map((buffer) => buffer.shift()) as SignalValues<S>,
+          );
+          completeIfExhausted();
+        }
+      },
+      failZipped,
+      () => {
+        completed[index] = true;
+        completeIfExhausted();
+      },
+    ),
+  );
+
+  return withCleanup(ownedReadonly(zipped), release);
+};
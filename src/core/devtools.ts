@@ -0,0 +1,103 @@
+/**
+ * Devtools Hook - where the library reports what it creates and changes
+ * Signals, computeds, effects, fetches and machines call the installed
+ * hook, if any; `resig.js/devtools` installs one and turns the calls into
+ * events. Without a hook each report costs a single check
+ * Update times and causes are only recorded while a hook is installed or
+ * `startTracing` is on
+ * Signals are identified by their graph node, machines by themselves
+ */
+
+export type EntityKind = 'signal' | 'computed' | 'effect' | 'fetch' | 'machine';
+
+export interface DevtoolsHook {
+  readonly created: (
+    entity: object,
+    kind: EntityKind,
+    value: unknown,
+    name?: string,
+  ) => void;
+  // `value` is the error when `failed`
+  readonly updated: (entity: object, value: unknown, failed: boolean) => void;
+  readonly disposed: (entity: object) => void;
+  // A machine changed state; `action` is absent for a reset
+  readonly transition: (
+    entity: object,
+    from: unknown,
+    to: unknown,
+    action?: unknown,
+  ) => void;
+  readonly fetchStarted: (entity: object) => void;
+  readonly fetchEnded: (entity: object, result: unknown) => void;
+}
+
+let hook: DevtoolsHook | undefined;
+let creating: EntityKind | undefined;
+let tracers = 0;
+
+/**
+ * Installs the hook; returns a function restoring the previous one
+ */
+export const setDevtoolsHook = (
+  next: DevtoolsHook | undefined,
+): (() => void) => {
+  const previous = hook;
+  hook = next;
+  return () => {
+    hook = previous;
+  };
+};
+
+/**
+ * Records when nodes change and why computeds recompute, for `inspect` and
+ * `why`, until the returned function is called
+ */
+export const startTracing = (): (() => void) => {
+  tracers++;
+  let tracing = true;
+  return () => {
+    if (tracing) {
+      tracing = false;
+      tracers--;
+    }
+  };
+};
+
+/**
+ * Whether the graph records its history: while tracing or a hook is installed
+ */
+export const isTracing = (): boolean => hook !== undefined || tracers > 0;
+
+/**
+ * Calls the installed hook, if any
+ */
+export const withDevtools = (fn: (hook: DevtoolsHook) => void) => {
+  if (hook) {
+    fn(hook);
+  }
+};
+
+/**
+ * Runs `fn`, reporting the signal it creates as `kind`; the outermost kind
+ * wins, so a fetch built on an effect is reported as a fetch
+ */
+export const reportingAs = <R>(kind: EntityKind, fn: () => R): R => {
+  if (creating) {
+    return fn();
+  }
+  creating = kind;
+  try {
+    return fn();
+  } finally {
+    creating = undefined;
+  }
+};
+
+/**
+ * The kind a signal created now is reported as
+ */
+export const creatingKind = (fallback: EntityKind): EntityKind => {
+  const kind = creating ?? fallback;
+  creating = undefined;
+  return kind;
+};
@@ -0,0 +1,176 @@
+import {
+  concatMap,
+  effect,
+  Effect,
+  exhaustMap,
+  mergeMap,
+  pureEffect,
+} from './effect';
+import { WritableSignal } from './signal';
+
+// Values a bound effect takes while its source goes through `inputs`
+const trace = <A, B>(
+  source: Effect<A> & WritableSignal<A>,
+  bound: Effect<B>,
+  inputs: A[],
+): B[] => {
+  const values = [bound.value()];
+  inputs.forEach((input) => {
+    source.set(input);
+    values.push(bound.value());
+  });
+  return values;
+};
+
+// Inner effect that stays loading until `resolve` is called
+const pending = () => {
+  const inner = effect<{ loading: boolean; data?: string }>({ loading: true });
+  return {
+    inner,
+    resolve: (data: string) => inner.set({ loading: false, data }),
+  };
+};
+
+describe('effect monad laws', () => {
+  const f = (n: number) => pureEffect(n + 1);
+  const g = (n: number) => pureEffect(n * 2);
+
+  test('left identity: bind(pure(a), f) ≡ f(a)', () => {
+    expect(pureEffect(3).bind(f).value()).toBe(f(3).value());
+  });
+
+  test('right identity: bind(ma, pure) ≡ ma', () => {
+    const ma = effect(1);
+    expect(trace(ma, ma.bind(pureEffect), [2, 3])).toEqual([1, 2, 3]);
+  });
+
+  test('associativity: bind(bind(ma, f), g) ≡ bind(ma, a => bind(f(a), g))', () => {
+    const left = effect(1);
+    const right = effect(1);
+
+    expect(trace(left, left.bind(f).bind(g), [2, 5])).toEqual(
+      trace(
+        right,
+        right.bind((a) => f(a).bind(g)),
+        [2, 5],
+      ),
+    );
+  });
+});
+
+describe('flat map strategies', () => {
+  test('bind switches to the latest inner effect', () => {
+    const source = effect('a');
+    const inners: Record<string, Effect<string> & WritableSignal<string>> = {
+      a: effect('a0'),
+      b: effect('b0'),
+    };
+    const bound = source.bind((key) => inners[key]);
+
+    source.set('b');
+    inners.a.set('a1'); // stale inner, ignored
+    expect(bound.value()).toBe('b0');
+
+    inners.b.set('b1');
+    expect(bound.value()).toBe('b1');
+  });
+
+  test('bind disposes the effects created by the previous projection', () => {
+    const source = effect(1);
+    const created: (Effect<number> & WritableSignal<number>)[] = [];
+    source.bind((n) => {
+      const inner = effect(n);
+      created.push(inner);
+      return inner;
+    });
+    const seen = jest.fn();
+    created[0].subscribe(seen);
+
+    source.set(2);
+    created[0].set(10);
+
+    expect(seen).not.toHaveBeenCalled();
+  });
+
+  test('mergeMap follows every inner effect', () => {
+    const source = effect(0);
+    const requests = [pending(), pending()];
+    const merged = mergeMap(source, (i) => requests[i].inner);
+
+    source.set(1);
+    requests[0].resolve('first');
+    expect(merged.value()).toEqual({ loading: false, data: 'first' });
+
+    requests[1].resolve('second');
+    expect(merged.value()).toEqual({ loading: false, data: 'second' });
+  });
+
+  test('concatMap queues values until the running inner effect settles', () => {
+    const source = effect(0);
+    const requests = [pending(), pending(), pending()];
+    const started: number[] = [];
+    const concatenated = concatMap(source, (i) => {
+      started.push(i);
+      return requests[i].inner;
+    });
+
+    source.set(1);
+    source.set(2);
+    expect(started).toEqual([0]);
+
+    requests[0].resolve('zero');
+    expect(started).toEqual([0, 1]);
+    requests[1].resolve('one');
+    requests[2].resolve('two');
+
+    expect(started).toEqual([0, 1, 2]);
+    expect(concatenated.value()).toEqual({ loading: false, data: 'two' });
+  });
+
+  test('concatMap moves on once the running inner effect completes', () => {
+    const source = effect(0);
+    const requests = [pending(), pending()];
+    const started: number[] = [];
+    concatMap(source, (i) => {
+      started.push(i);
+      return requests[i].inner;
+    });
+
+    source.set(1);
+    expect(started).toEqual([0]);
+
+    // Aborted: completes without ever leaving the loading state
+    requests[0].inner.complete();
+    expect(started).toEqual([0, 1]);
+  });
+
+  test('bind completes with its source and the current inner effect', () => {
+    const source = effect(1);
+    const inner = effect('a');
+    const bound = source.bind(() => inner);
+
+    source.complete();
+    expect(bound.isClosed()).toBe(false);
+
+    inner.set('b');
+    inner.complete();
+    expect(bound.isClosed()).toBe(true);
+    expect(bound.value()).toBe('b');
+  });
+
+  test('exhaustMap ignores values while an inner effect runs', () => {
+    const source = effect(0);
+    const requests = [pending(), pending(), pending()];
+    const started: number[] = [];
+    exhaustMap(source, (i) => {
+      started.push(i);
+      return requests[i].inner;
+    });
+
+    source.set(1);
+    requests[0].resolve('zero');
+    source.set(2);
+
+    expect(started).toEqual([0, 2]);
+  });
+});
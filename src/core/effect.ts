@@ -3,7 +3,18 @@
  * Following monadic laws for effect composition
  */
 
-import { Signal, signal } from './signal';
+import { combineLatest } from './combine';
+import { reportingAs } from './devtools';
+import { fail, nodeOf } from './graph';
+import { observable } from './observable';
+import { createScope, Scope, withCleanup } from './scope';
+import {
+  ReadonlySignal,
+  Signal,
+  signal,
+  SignalOptions,
+  WritableSignal,
+} from './signal';
 
 export interface Effect<A> extends Signal<A> {
   readonly bind: <B>(f: (a: A) => Effect<B>) => Effect<B>;
@@ -19,32 +30,28 @@ export interface Effect<A> extends Signal<A> {
  */
 export const effect = <A>(
   initial: A,
-): Effect<A> & { _set: (value: A) => void } => {
-  const baseSignal = signal(initial);
+  options?: SignalOptions<A>,
+): Effect<A> & WritableSignal<A> => {
+  const baseSignal = reportingAs('effect', () => signal(initial, options));
 
-  const effectInstance: Effect<A> & { _set: (value: A) => void } = {
+  const effectInstance: Effect<A> & WritableSignal<A> = {
     value: baseSignal.value,
+    peek: baseSignal.peek,
     map: baseSignal.map,
     subscribe: baseSignal.subscribe,
+    isClosed: baseSignal.isClosed,
+    [observable]: baseSignal[observable],
+    [Symbol.asyncIterator]: baseSignal[Symbol.asyncIterator],
+    dispose: baseSignal.dispose,
+    set: baseSignal.set,
+    update: baseSignal.update,
+    asReadonly: baseSignal.asReadonly,
+    complete: baseSignal.complete,
     _set: baseSignal._set,
 
-    bind: <B>(f: (a: A) => Effect<B>): Effect<B> => {
-      // Create new effect for the result
-      const resultEffect = effect(f(baseSignal.value()).value());
-
-      // Subscribe to changes and bind them
-      baseSignal.subscribe((newValue) => {
-        const newEffect = f(newValue);
-        resultEffect._set(newEffect.value());
-
-        // Subscribe to the new effect's changes
-        newEffect.subscribe((boundValue) => {
-          resultEffect._set(boundValue);
-        });
-      });
-
-      return resultEffect;
-    },
+    // Switches to the latest inner effect, disposing the previous one
+    bind: <B>(f: (a: A) => Effect<B>): Effect<B> =>
+      flatMap(baseSignal, f, 'switch'),
 
     chain: function <B>(f: (a: A) => Effect<B>): Effect<B> {
       return this.bind(f);
@@ -54,10 +61,177 @@ export const effect = <A>(
   return effectInstance;
 };
 
+/**
+ * How a flat map treats a new source value while an inner effect runs
+ */
+type Strategy = 'switch' | 'merge' | 'concat' | 'exhaust';
+
+interface Inner {
+  readonly scope: Scope;
+  settled: boolean;
+  completed: boolean;
+}
+
+// An inner effect is running until it completes or holds a value other than
+// a loading `AsyncState` (e.g. `fetch`)
+const isPending = (value: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as { loading?: unknown }).loading === true;
+
+const flatMap = <A, B>(
+  source: ReadonlySignal<A>,
+  f: (a: A) => Effect<B>,
+  strategy: Strategy,
+): Effect<B> => {
+  const resultEffect = effect(undefined as B);
+  // Owns the scopes of the inner effects, so the writes that trigger a
+  // projection never become their owners
+  const owner = createScope();
+  const running = new Set<Inner>();
+  const queued: A[] = [];
+  let sourceCompleted = false;
+
+  // Errors from `f`, the source or an inner effect fail the result
+  // instead of escaping into the source's notification
+  const failResult = (error: unknown) =>
+    fail(nodeOf(resultEffect.value)!, error);
+
+  const release = (inner: Inner) => {
+    running.delete(inner);
+    inner.scope.dispose();
+  };
+
+  const settle = (inner: Inner) => {
+    inner.settled = true;
+    if (strategy === 'concat' && queued.length > 0) {
+      project(queued.shift()!);
+    }
+  };
+
+  // The result completes once the source and every inner effect it still
+  // follows have completed
+  const completeIfDone = () => {
+    if (
+      sourceCompleted &&
+      queued.length === 0 &&
+      [...running].every((inner) => inner.completed)
+    ) {
+      resultEffect.complete();
+      owner.dispose();
+    }
+  };
+
+  const project = (value: A) => {
+    if (strategy !== 'merge') {
+      running.forEach(release);
+    }
+
+    const inner: Inner = {
+      scope: owner.run(createScope),
+      settled: false,
+      completed: false,
+    };
+    running.add(inner);
+    try {
+      // Effects created by `f` belong to this projection
+      const innerEffect = inner.scope.run(() => f(value));
+      const receive = (boundValue: B) => {
+        resultEffect.set(boundValue);
+        if (!inner.settled && !isPending(boundValue)) {
+          settle(inner);
+        }
+      };
+      const completeInner = () => {
+        inner.completed = true;
+        if (!inner.settled) {
+          settle(inner);
+        }
+        completeIfDone();
+      };
+      receive(innerEffect.value());
+      // Settling may already have moved on to a queued value
+      if (running.has(inner)) {
+        inner.scope.onDispose(
+          innerEffect.subscribe(receive, failResult, completeInner),
+        );
+      }
+    } catch (error) {
+      failResult(error);
+      inner.completed = true;
+      settle(inner);
+    }
+  };
+
+  const busy = () => [...running].some((inner) => !inner.settled);
+
+  const next = (value: A) => {
+    if (strategy === 'concat' && busy()) {
+      queued.push(value);
+    } else if (strategy !== 'exhaust' || !busy()) {
+      project(value);
+    }
+  };
+
+  try {
+    project(source.peek());
+  } catch (error) {
+    failResult(error);
+  }
+  const unsubscribe = source.subscribe(next, failResult, () => {
+    sourceCompleted = true;
+    completeIfDone();
+  });
+
+  return withCleanup(resultEffect, () => {
+    unsubscribe();
+    queued.length = 0;
+    owner.dispose();
+  });
+};
+
+/**
+ * Maps each value to an inner effect and follows only the latest one;
+ * the previous inner effect is disposed (same as `bind`)
+ */
+export const switchMap = <A, B>(
+  source: ReadonlySignal<A>,
+  f: (a: A) => Effect<B>,
+): Effect<B> => flatMap(source, f, 'switch');
+
+/**
+ * Maps each value to an inner effect and follows all of them at once
+ */
+export const mergeMap = <A, B>(
+  source: ReadonlySignal<A>,
+  f: (a: A) => Effect<B>,
+): Effect<B> => flatMap(source, f, 'merge');
+
+/**
+ * Maps each value to an inner effect, starting the next one only after the
+ * current one has settled; values arriving meanwhile are queued
+ */
+export const concatMap = <A, B>(
+  source: ReadonlySignal<A>,
+  f: (a: A) => Effect<B>,
+): Effect<B> => flatMap(source, f, 'concat');
+
+/**
+ * Maps a value to an inner effect only when none is running; values
+ * arriving meanwhile are dropped
+ */
+export const exhaustMap = <A, B>(
+  source: ReadonlySignal<A>,
+  f: (a: A) => Effect<B>,
+): Effect<B> => flatMap(source, f, 'exhaust');
+
 /**
  * Lifts a value into Effect context (pure for Effect monad)
  */
-export const pureEffect = <A>(value: A): Effect<A> => effect(value);
+export const pureEffect = <A>(
+  value: A,
+  options?: SignalOptions<A>,
+): Effect<A> => effect(value, options);
 
 /**
  * Flattens nested Effects (join operation)
@@ -78,11 +252,19 @@ export const apply = <A, B>(
 
 /**
  * Sequences an array of Effects into an Effect of array
+ * Subscribes to every effect once; a change emits the whole array
  */
 export const sequence = <A>(effects: Effect<A>[]): Effect<A[]> => {
-  return effects.reduce(
-    (acc, curr) =>
-      acc.bind((arr) => curr.bind((val) => pureEffect([...arr, val]))),
-    pureEffect([] as A[]),
+  const combined = combineLatest(effects);
+  const sequenced = effect(combined.value());
+  const unsubscribe = combined.subscribe(
+    sequenced.set,
+    (error) => fail(nodeOf(sequenced.value)!, error),
+    sequenced.complete,
   );
+
+  return withCleanup(sequenced, () => {
+    unsubscribe();
+    combined.dispose();
+  });
 };
@@ -0,0 +1,102 @@
+/**
+ * Equality Strategies - decide when a new value counts as a change
+ * A signal only notifies when its `equals` reports the values as different
+ */
+
+export type Equals<A> = (a: A, b: A) => boolean;
+
+/**
+ * Reference equality - the default for every signal
+ */
+export const strictEqual = <A>(a: A, b: A): boolean => a === b;
+
+/**
+ * Never equal - every write notifies, even with the same value
+ */
+export const always = (): boolean => false;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * One level deep: arrays by index, objects by own keys, leaves by reference
+ */
+export const shallowEqual = <A>(a: A, b: A): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (!isObject(a) || !isObject(b)) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        Object.is(a[key], b[key]),
+    )
+  );
+};
+
+/**
+ * Structural equality over plain objects, arrays, Maps, Sets and Dates
+ */
+export const deepEqual = <A>(a: A, b: A): boolean => {
+  const visited = new WeakMap<object, object>();
+
+  const equal = (x: unknown, y: unknown): boolean => {
+    if (Object.is(x, y)) {
+      return true;
+    }
+    if (!isObject(x) || !isObject(y)) {
+      return false;
+    }
+    if (Object.getPrototypeOf(x) !== Object.getPrototypeOf(y)) {
+      return false;
+    }
+
+    // Cycles compare equal once the same pair is seen again
+    if (visited.get(x) === y) {
+      return true;
+    }
+    visited.set(x, y);
+
+    if (x instanceof Date) {
+      return x.getTime() === (y as unknown as Date).getTime();
+    }
+    if (x instanceof RegExp) {
+      return String(x) === String(y);
+    }
+    if (x instanceof Map) {
+      const other = y as unknown as Map<unknown, unknown>;
+      return (
+        x.size === other.size &&
+        [...x].every(
+          ([key, value]) => other.has(key) && equal(value, other.get(key)),
+        )
+      );
+    }
+    if (x instanceof Set) {
+      const other = y as unknown as Set<unknown>;
+      return x.size === other.size && [...x].every((value) => other.has(value));
+    }
+
+    const keysX = Object.keys(x);
+    const keysY = Object.keys(y);
+    return (
+      keysX.length === keysY.length &&
+      keysX.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(y, key) && equal(x[key], y[key]),
+      )
+    );
+  };
+
+  return equal(a, b);
+};
@@ -0,0 +1,149 @@
+import { effect } from './effect';
+import { catchError, onError, orElse, retry } from './error';
+import { computed, signal } from './signal';
+
+describe('error channel', () => {
+  test('throwing derivations hold the error and propagate it', () => {
+    const input = signal('1');
+    const parsed = input.map((text) => {
+      const n = Number(text);
+      if (Number.isNaN(n)) {
+        throw new Error(`not a number: ${text}`);
+      }
+      return n;
+    });
+    const doubled = parsed.map((n) => n * 2);
+
+    input.set('x');
+    expect(() => parsed.value()).toThrow('not a number: x');
+    expect(() => doubled.value()).toThrow('not a number: x');
+
+    input.set('4');
+    expect(doubled.value()).toBe(8);
+  });
+
+  test('subscribers receive errors through onError', () => {
+    const input = signal(1);
+    const checked = input.map((n) => {
+      if (n < 0) {
+        throw new Error('negative');
+      }
+      return n;
+    });
+    const seen = jest.fn();
+    const errors = jest.fn();
+    checked.subscribe(seen, errors);
+
+    input.set(-1);
+    expect(errors).toHaveBeenCalledWith(new Error('negative'));
+
+    input.set(2);
+    expect(seen).toHaveBeenCalledWith(2);
+  });
+
+  test('subscriber exceptions are isolated and reported', () => {
+    const handler = jest.fn();
+    const restore = onError(handler);
+    const source = signal(0);
+    const after = jest.fn();
+    source.subscribe(() => {
+      throw new Error('boom');
+    });
+    source.subscribe(after);
+
+    source.set(1);
+    restore();
+
+    expect(after).toHaveBeenCalledWith(1);
+    expect(handler).toHaveBeenCalledWith(new Error('boom'));
+  });
+
+  test('without a handler the error is rethrown after propagation', () => {
+    const source = signal(0);
+    const after = jest.fn();
+    source.subscribe(() => {
+      throw new Error('boom');
+    });
+    source.subscribe(after);
+
+    expect(() => source.set(1)).toThrow('boom');
+    expect(after).toHaveBeenCalledWith(1);
+  });
+
+  test('catchError and orElse recover with a value', () => {
+    const input = signal(1);
+    const inverse = input.map((n) => {
+      if (n === 0) {
+        throw new Error('division by zero');
+      }
+      return 1 / n;
+    });
+    const caught = catchError(inverse, (error) => String(error));
+    const safe = orElse(inverse, Infinity);
+
+    input.set(0);
+    expect(caught.value()).toBe('Error: division by zero');
+    expect(safe.value()).toBe(Infinity);
+
+    input.set(4);
+    expect(safe.value()).toBe(0.25);
+  });
+
+  test('retry re-runs a failing derivation', () => {
+    let failures = 2;
+    const source = signal(1);
+    const flaky = computed(() => {
+      const value = source.value();
+      if (failures-- > 0) {
+        throw new Error('flaky');
+      }
+      return value;
+    });
+
+    expect(retry(flaky, 2).value()).toBe(1);
+
+    failures = 5;
+    source.set(2);
+    expect(() => retry(flaky, 1).value()).toThrow('flaky');
+  });
+
+  test('cold readers of a retried derivation see its recovery', () => {
+    let failures = 1;
+    const flaky = computed(() => {
+      if (failures-- > 0) {
+        throw new Error('flaky');
+      }
+      return 'ok';
+    });
+    const shown = computed(() => {
+      try {
+        return flaky.value();
+      } catch {
+        return 'failed';
+      }
+    });
+    expect(shown.value()).toBe('failed');
+
+    expect(retry(flaky, 1).value()).toBe('ok');
+    expect(shown.value()).toBe('ok');
+  });
+
+  test('bind fails the result instead of throwing into notify', () => {
+    const source = effect(1);
+    const bound = source.bind((n) => {
+      if (n > 1) {
+        throw new Error('too big');
+      }
+      return effect(n * 10);
+    });
+    const after = jest.fn();
+    source.subscribe(after);
+
+    source.set(2);
+    expect(after).toHaveBeenCalledWith(2);
+    expect(() => bound.value()).toThrow('too big');
+
+    source.set(1);
+    expect(bound.value()).toBe(10);
+  });
+});
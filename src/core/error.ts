@@ -0,0 +1,65 @@
+/**
+ * Error Channel - failed derivations and how to recover from them
+ * A signal whose derivation throws holds the error instead of a value;
+ * `value()` rethrows it and dependents fail with it until it recovers
+ */
+
+import { invalidate, nodeOf, setErrorHandler } from './graph';
+import { computed, ReadonlySignal, Signal, SignalOptions } from './signal';
+
+/**
+ * Installs a global handler for errors no reader can catch: exceptions
+ * thrown by subscribers, and failures of signals whose subscribers pass no
+ * `onError`. Without a handler they are rethrown once propagation is over.
+ * Returns a function restoring the previous handler.
+ */
+export const onError = (handler: (error: unknown) => void): (() => void) =>
+  setErrorHandler(handler);
+
+/**
+ * Recovers from an error held by `source` with a replacement value
+ */
+export const catchError = <A, B = A>(
+  source: ReadonlySignal<A>,
+  handler: (error: unknown) => B,
+  options?: SignalOptions<A | B>,
+): Signal<A | B> =>
+  computed<A | B>(() => {
+    try {
+      return source.value();
+    } catch (error) {
+      return handler(error);
+    }
+  }, options);
+
+/**
+ * Uses `fallback` while `source` holds an error
+ */
+export const orElse = <A, B = A>(
+  source: ReadonlySignal<A>,
+  fallback: B,
+  options?: SignalOptions<A | B>,
+): Signal<A | B> => catchError(source, () => fallback, options);
+
+/**
+ * Re-runs the derivation behind `source` up to `times` more times when it
+ * fails, then passes the last error on
+ */
+export const retry = <A>(
+  source: ReadonlySignal<A>,
+  times: number,
+  options?: SignalOptions<A>,
+): Signal<A> =>
+  computed(() => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return source.value();
+      } catch (error) {
+        const node = nodeOf(source.value);
+        if (attempt >= times || !node) {
+          throw error;
+        }
+        invalidate(node);
+      }
+    }
+  }, options);
@@ -0,0 +1,663 @@
+/**
+ * Reactive Graph - glitch-free propagation engine
+ * A write marks every dependent stale, then each stale node is recomputed
+ * exactly once, sources before dependents (topological order)
+ * Derived nodes are linked into the graph only while observed: without
+ * subscribers or observing dependents they stay cold and revalidate on read
+ * A derivation that throws puts its node in an error state; readers rethrow
+ * the error, so it propagates downstream like a value
+ * A completed node keeps its value and never changes again; a derived node
+ * completes once every source it reads has completed
+ */
+
+import { isTracing, withDevtools } from './devtools';
+import { Equals, strictEqual } from './equality';
+import { getScheduler, Scheduler } from './scheduler';
+
+// Node states, ordered by staleness
+const CLEAN = 0;
+const CHECK = 1; // a transitive source changed, value may be stale
+const DIRTY = 2; // a direct source changed, value must be recomputed
+
+export interface Subscriber<A> {
+  readonly next: (value: A) => void;
+  readonly error?: (error: unknown) => void;
+  readonly complete?: () => void;
+}
+
+export interface ReactiveNode<A = unknown> {
+  value: A;
+  version: number; // bumped on every value change
+  notified: number; // last version delivered to subscribers
+  state: number;
+  height: number; // topological rank: 0 for sources, 1 + max(sources)
+  epoch: number; // write epoch of the last revalidation
+  failed: boolean; // holds `error` instead of a value
+  error: unknown;
+  disposed: boolean;
+  closed: boolean; // completed: the value is final
+  updatedAt: number; // scheduler time of the last traced change, -1 if none
+  runs: number; // evaluations of a derived node
+  causes: ReactiveNode[]; // changed sources of the last traced evaluation
+  label?: string; // name shown by introspection and devtools
+  readonly sources: Map<ReactiveNode, number>; // source -> version read
+  readonly observers: Set<ReactiveNode>;
+  readonly subscribers: Set<Subscriber<A>>;
+  readonly compute?: () => A; // present on derived nodes only
+  readonly equals: Equals<A>;
+  readonly scheduler?: Scheduler; // delivers this node's notifications
+}
+
+/**
+ * Creates a graph node; derived nodes start dirty and evaluate on first read
+ */
+export const createNode = <A>(
+  value: A,
+  compute?: () => A,
+  equals: Equals<A> = strictEqual,
+  scheduler?: Scheduler,
+): ReactiveNode<A> => ({
+  value,
+  version: 0,
+  notified: 0,
+  state: compute ? DIRTY : CLEAN,
+  height: 0,
+  epoch: -1,
+  failed: false,
+  error: undefined,
+  disposed: false,
+  closed: false,
+  updatedAt: -1,
+  runs: 0,
+  causes: [],
+  sources: new Map(),
+  observers: new Set(),
+  subscribers: new Set(),
+  compute,
+  equals,
+  scheduler,
+});
+
+// Node currently collecting its dependencies
+let activeObserver: ReactiveNode | undefined;
+
+// Nodes with subscribers waiting to be notified
+const queue = new Set<ReactiveNode>();
+// Notifiers outside the graph (machines) that run once per flush
+const jobs = new Set<() => void>();
+let flushing = false;
+let flushRequested = false;
+let batchDepth = 0;
+// Nodes waiting for their own scheduler, and those it has released
+const scheduled = new Set<ReactiveNode>();
+const due = new Set<ReactiveNode>();
+// Bumped on every write; cold nodes checked in the current epoch are fresh
+let epoch = 0;
+
+// Errors nobody can catch: thrown by subscribers, or held by a node whose
+// subscribers cannot receive them. Without a handler, the first one is
+// rethrown once the flush is over
+let errorHandler: ((error: unknown) => void) | undefined;
+const uncaught: unknown[] = [];
+const reported = new Set<unknown>();
+
+/**
+ * Previous values of the nodes written while a transaction is open
+ */
+export type Journal = Map<ReactiveNode, { value: unknown; notified: number }>;
+
+const journals: Journal[] = [];
+
+// Node behind each signal, keyed by its `value` reader, which every view and
+// wrapper of the signal shares
+const nodes = new WeakMap<object, ReactiveNode>();
+
+/**
+ * Associates a signal's `value` reader with its node
+ */
+export const register = <A>(reader: () => A, node: ReactiveNode<A>) => {
+  nodes.set(reader, node as ReactiveNode);
+};
+
+/**
+ * Looks up the node behind a signal's `value` reader
+ */
+export const nodeOf = (reader: () => unknown): ReactiveNode | undefined =>
+  nodes.get(reader);
+
+/**
+ * Records `node` as a dependency of the computation being evaluated
+ */
+export const track = (node: ReactiveNode) => {
+  if (activeObserver && activeObserver !== node) {
+    activeObserver.sources.set(node, node.version);
+  }
+};
+
+const isObserved = (node: ReactiveNode) =>
+  node.subscribers.size > 0 || node.observers.size > 0;
+
+// Observed nodes keep their sources hot; the first observer links a cold
+// node into the graph, the last one to leave unlinks it again
+const link = (node: ReactiveNode, source: ReactiveNode) => {
+  if (!source.observers.has(node)) {
+    const wasObserved = isObserved(source);
+    source.observers.add(node);
+    if (!wasObserved) {
+      attach(source);
+    }
+  }
+};
+
+const unlink = (node: ReactiveNode, source: ReactiveNode) => {
+  source.observers.delete(node);
+  if (node.causes.includes(source)) {
+    node.causes = node.causes.filter((cause) => cause !== source);
+  }
+  if (!isObserved(source)) {
+    detach(source);
+  }
+};
+
+// Nothing a derived node reads can change any more
+const sourcesClosed = (node: ReactiveNode): boolean =>
+  node.sources.size > 0 &&
+  [...node.sources.keys()].every((source) => source.closed);
+
+const attach = (node: ReactiveNode) => {
+  node.sources.forEach((_, source) => link(node, source));
+};
+
+const detach = (node: ReactiveNode) => {
+  node.sources.forEach((_, source) => unlink(node, source));
+};
+
+/**
+ * Runs `fn` without recording dependencies for the computation in progress
+ */
+export const untracked = <R>(fn: () => R): R => {
+  const previousObserver = activeObserver;
+  activeObserver = undefined;
+  try {
+    return fn();
+  } finally {
+    activeObserver = previousObserver;
+  }
+};
+
+/**
+ * Installs the handler for uncaught errors; returns a function restoring the
+ * previous one
+ */
+export const setErrorHandler = (
+  handler: ((error: unknown) => void) | undefined,
+): (() => void) => {
+  const previousHandler = errorHandler;
+  errorHandler = handler;
+  return () => {
+    errorHandler = previousHandler;
+  };
+};
+
+// Each error is reported once per flush, however many nodes it reached
+const report = (error: unknown) => {
+  if (reported.has(error)) {
+    return;
+  }
+  reported.add(error);
+
+  try {
+    if (!errorHandler) {
+      throw error;
+    }
+    errorHandler(error);
+  } catch (unhandled) {
+    uncaught.push(unhandled);
+  }
+};
+
+/**
+ * Calls a subscriber, isolating the others from its exceptions
+ */
+export const deliver = <A>(fn: (value: A) => void, value: A) => {
+  try {
+    fn(value);
+  } catch (error) {
+    report(error);
+  }
+};
+
+// Subscribers handling errors receive them; otherwise the error is uncaught
+const notifyError = (node: ReactiveNode) => {
+  let handled = false;
+  node.subscribers.forEach(({ error }) => {
+    if (error) {
+      handled = true;
+      deliver(error, node.error);
+    }
+  });
+  if (!handled) {
+    report(node.error);
+  }
+};
+
+/**
+ * Returns the node's value, or throws the error it holds
+ */
+export const read = <A>(node: ReactiveNode<A>): A => {
+  if (node.failed) {
+    throw node.error;
+  }
+  return node.value;
+};
+
+const enqueue = (node: ReactiveNode) => {
+  if (node.subscribers.size > 0) {
+    queue.add(node);
+  }
+};
+
+const markStale = (node: ReactiveNode, state: number) => {
+  if (node.state >= state) {
+    return;
+  }
+
+  const wasClean = node.state === CLEAN;
+  node.state = state;
+  if (wasClean) {
+    enqueue(node);
+    node.observers.forEach((observer) => markStale(observer, CHECK));
+  }
+};
+
+const reportUpdate = (node: ReactiveNode) =>
+  withDevtools((hook) =>
+    hook.updated(node, node.failed ? node.error : node.value, node.failed),
+  );
+
+/**
+ * Re-runs a derived node under tracking and re-links its sources
+ * Returns whether the value (or error) changed
+ */
+const evaluate = <A>(node: ReactiveNode<A>): boolean => {
+  const previousSources = new Map(node.sources);
+  node.sources.clear();
+
+  const previousObserver = activeObserver;
+  activeObserver = node as ReactiveNode;
+  let next: A | undefined;
+  let failed = false;
+  let error: unknown;
+  try {
+    next = node.compute!();
+  } catch (thrown) {
+    failed = true;
+    error = thrown;
+  } finally {
+    activeObserver = previousObserver;
+  }
+
+  // Kept for introspection: which sources made this evaluation necessary
+  node.runs++;
+  node.causes = isTracing()
+    ? [...previousSources]
+        .filter(([source, version]) => source.version !== version)
+        .map(([source]) => source)
+    : [];
+
+  let height = 0;
+  node.sources.forEach((_, source) => {
+    node.sources.set(source, source.version);
+    height = Math.max(height, source.height + 1);
+  });
+  node.height = height;
+
+  // Dynamic dependencies: unlink dropped sources, link new ones
+  if (isObserved(node as ReactiveNode)) {
+    previousSources.forEach((_, source) => {
+      if (!node.sources.has(source)) {
+        unlink(node as ReactiveNode, source);
+      }
+    });
+    attach(node as ReactiveNode);
+  }
+
+  if (failed) {
+    if (node.failed && node.error === error) {
+      return false;
+    }
+    node.failed = true;
+    node.error = error;
+  } else {
+    // Recovering from an error is always a change
+    if (!node.failed && node.version > 0 && node.equals(node.value, next!)) {
+      return false;
+    }
+    node.failed = false;
+    node.error = undefined;
+    node.value = next!;
+  }
+  node.version++;
+  node.updatedAt = isTracing() ? getScheduler().now() : -1;
+  reportUpdate(node as ReactiveNode);
+  return true;
+};
+
+// Pulls sources in order and stops at the first one that changed
+const sourcesChanged = (node: ReactiveNode): boolean => {
+  for (const [source, version] of node.sources) {
+    refresh(source);
+    if (source.version !== version) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Brings a node up to date, pulling its sources first
+ * Observed nodes rely on being marked stale; cold nodes compare the source
+ * versions they last read, unless nothing was written since
+ */
+export const refresh = (node: ReactiveNode) => {
+  if (node.disposed || node.closed || !node.compute) {
+    return;
+  }
+  if (node.state === CLEAN && (isObserved(node) || node.epoch === epoch)) {
+    return;
+  }
+
+  if (node.state === DIRTY || sourcesChanged(node)) {
+    evaluate(node);
+  }
+  node.state = CLEAN;
+  node.epoch = epoch;
+  if (sourcesClosed(node)) {
+    complete(node);
+  }
+};
+
+// A node with its own scheduler is skipped by the flush and re-queued
+// once that scheduler runs it; several writes in between coalesce
+const scheduleNode = (node: ReactiveNode) => {
+  if (scheduled.has(node)) {
+    return;
+  }
+  scheduled.add(node);
+  node.scheduler!.schedule(() => {
+    scheduled.delete(node);
+    due.add(node);
+    queue.add(node);
+    flush();
+  });
+};
+
+const notify = (node: ReactiveNode) => {
+  refresh(node);
+  if (node.notified !== node.version) {
+    node.notified = node.version;
+    if (node.failed) {
+      notifyError(node);
+    } else {
+      node.subscribers.forEach(({ next }) => deliver(next, node.value));
+    }
+  }
+  if (node.closed) {
+    release(node);
+  }
+};
+
+// Tells subscribers a completed node is done and lets go of them, so a
+// finished chain can be garbage-collected
+const release = (node: ReactiveNode) => {
+  const subscribers = [...node.subscribers];
+  node.subscribers.clear();
+  if (!isObserved(node)) {
+    detach(node);
+  }
+  subscribers.forEach(({ complete }) => {
+    if (complete) {
+      deliver(complete, undefined);
+    }
+  });
+};
+
+/**
+ * Delivers pending notifications in topological order
+ */
+const flush = () => {
+  if (flushing || batchDepth > 0) {
+    return;
+  }
+
+  flushing = true;
+  // Subscribers may run while a computation is evaluating; their reads
+  // must not become its dependencies
+  const previousObserver = activeObserver;
+  activeObserver = undefined;
+  try {
+    while (queue.size > 0 || jobs.size > 0) {
+      const nodes = [...queue].sort((a, b) => a.height - b.height);
+      queue.clear();
+      nodes.forEach((node) => {
+        if (node.scheduler && !due.delete(node)) {
+          scheduleNode(node);
+        } else {
+          notify(node);
+        }
+      });
+
+      const pending = [...jobs];
+      jobs.clear();
+      pending.forEach((job) => deliver(job, undefined));
+    }
+  } finally {
+    activeObserver = previousObserver;
+    flushing = false;
+    reported.clear();
+  }
+
+  if (uncaught.length > 0) {
+    const [error] = uncaught.splice(0);
+    throw error;
+  }
+};
+
+/**
+ * Asks the app-wide scheduler for a flush; requests coalesce until it runs
+ */
+const requestFlush = () => {
+  if (flushRequested) {
+    return;
+  }
+  flushRequested = true;
+  getScheduler().schedule(() => {
+    flushRequested = false;
+    flush();
+  });
+};
+
+/**
+ * Runs a notifier after the current batch, once however often it is deferred
+ */
+export const defer = (job: () => void) => {
+  jobs.add(job);
+  requestFlush();
+};
+
+/**
+ * Holds notifications until the outermost batch ends
+ */
+export const batched = <R>(fn: () => R): R => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    requestFlush();
+  }
+};
+
+/**
+ * Runs `fn` while recording the previous value of every written node
+ */
+export const recording = <R>(journal: Journal, fn: () => R): R => {
+  journals.push(journal);
+  try {
+    return fn();
+  } finally {
+    journals.splice(journals.lastIndexOf(journal), 1);
+  }
+};
+
+/**
+ * Restores every node recorded in the journal; subscribers that never saw
+ * the discarded values are not notified
+ */
+export const rollback = (journal: Journal) => {
+  batched(() => {
+    journal.forEach(({ value, notified }, node) => {
+      if (node.value !== value) {
+        write(node, value);
+      }
+      if (node.notified === notified) {
+        node.notified = node.version;
+      }
+    });
+  });
+};
+
+const change = (node: ReactiveNode, apply: () => void) => {
+  if (node.closed) {
+    return;
+  }
+  journals.forEach((journal) => {
+    if (!journal.has(node)) {
+      journal.set(node, { value: node.value, notified: node.notified });
+    }
+  });
+  apply();
+  node.version++;
+  node.updatedAt = isTracing() ? getScheduler().now() : -1;
+  reportUpdate(node);
+  epoch++;
+  enqueue(node);
+  node.observers.forEach((observer) => markStale(observer, DIRTY));
+  requestFlush();
+};
+
+/**
+ * Writes a new value into a source node and propagates the change
+ */
+export const write = <A>(node: ReactiveNode<A>, value: A) =>
+  change(node as ReactiveNode, () => {
+    node.value = value;
+    node.failed = false;
+    node.error = undefined;
+  });
+
+/**
+ * Puts a source node in an error state and propagates it
+ */
+export const fail = (node: ReactiveNode, error: unknown) =>
+  change(node, () => {
+    node.failed = true;
+    node.error = error;
+  });
+
+/**
+ * Marks a derived node for recomputation without starting a flush: reads see
+ * the change right away, subscribers once the next flush runs
+ * For callers that may not run signal code, e.g. a TC39 watcher's notify
+ */
+export const markDirty = (node: ReactiveNode) => {
+  if (node.compute && !node.disposed && !node.closed) {
+    markStale(node, DIRTY);
+    // Cold dependents checked in this epoch must check their sources again
+    epoch++;
+  }
+};
+
+/**
+ * Forces a derived node to recompute, e.g. to retry after an error
+ */
+export const invalidate = (node: ReactiveNode) => {
+  markDirty(node);
+  requestFlush();
+};
+
+/**
+ * Completes a node: later writes are ignored, subscribers are told once
+ * pending notifications are delivered and then released
+ * Observing derived nodes whose sources have all completed complete too
+ */
+export const complete = (node: ReactiveNode) => {
+  if (node.closed || node.disposed) {
+    return;
+  }
+
+  node.closed = true;
+  enqueue(node);
+  requestFlush();
+  // Stale observers complete once they have been re-evaluated
+  node.observers.forEach((observer) => {
+    if (observer.state === CLEAN && sourcesClosed(observer)) {
+      complete(observer);
+    }
+  });
+};
+
+/**
+ * Adds a subscriber; the node is brought up to date first so only
+ * subsequent changes are delivered
+ * The first subscriber links a cold node into the graph and the last one to
+ * unsubscribe releases it; subscribing to a completed node only calls
+ * `complete`
+ */
+export const subscribe = <A>(
+  node: ReactiveNode<A>,
+  next: (value: A) => void,
+  error?: (error: unknown) => void,
+  complete?: () => void,
+): (() => void) => {
+  const subscriber: Subscriber<A> = { next, error, complete };
+  refresh(node as ReactiveNode);
+  if (node.closed) {
+    complete?.();
+    return () => undefined;
+  }
+  if (node.subscribers.size === 0) {
+    node.notified = node.version;
+  }
+
+  const wasObserved = isObserved(node as ReactiveNode);
+  node.subscribers.add(subscriber);
+  if (!wasObserved && !node.disposed) {
+    attach(node as ReactiveNode);
+  }
+
+  return () => {
+    if (
+      node.subscribers.delete(subscriber) &&
+      !isObserved(node as ReactiveNode)
+    ) {
+      detach(node as ReactiveNode);
+    }
+  };
+};
+
+/**
+ * Detaches a node from its sources and drops its subscribers
+ * A disposed derived node keeps its last value and never recomputes
+ */
+export const dispose = (node: ReactiveNode) => {
+  if (!node.disposed) {
+    withDevtools((hook) => hook.disposed(node));
+  }
+  node.disposed = true;
+  node.sources.forEach((_, source) => unlink(node, source));
+  node.sources.clear();
+  node.subscribers.clear();
+  queue.delete(node);
+  due.delete(node);
+};
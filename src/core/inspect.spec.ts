@@ -0,0 +1,113 @@
+import { batch } from './batch';
+import { inspect, label, startTracing, toDot, toMermaid, why } from './inspect';
+import { computed, signal } from './signal';
+
+const spreadsheet = () => {
+  const price = label(signal(10), 'price');
+  const quantity = label(signal(2), 'quantity');
+  const total = label(
+    computed(() => price.value() * quantity.value()),
+    'total',
+  );
+  const summary = label(
+    computed(() => `Total: ${total.value()}`),
+    'summary',
+  );
+  return { price, quantity, total, summary };
+};
+
+describe('inspect', () => {
+  let stopTracing: () => void;
+  beforeEach(() => {
+    stopTracing = startTracing();
+  });
+  afterEach(() => stopTracing());
+
+  test('reports dependencies, dependents and subscribers', () => {
+    const { price, quantity, total, summary } = spreadsheet();
+    summary.subscribe(() => undefined);
+
+    const info = inspect(total);
+
+    expect(info).toMatchObject({
+      label: 'total',
+      kind: 'computed',
+      value: 20,
+      runs: 1,
+      subscribers: 0,
+    });
+    expect(info.dependencies.map((node) => node.label)).toEqual([
+      'price',
+      'quantity',
+    ]);
+    expect(info.dependents.map((node) => node.label)).toEqual(['summary']);
+    expect(inspect(summary).subscribers).toBe(1);
+    expect(inspect(price).updatedAt).toBeUndefined();
+
+    quantity.set(3);
+    expect(inspect(quantity).updatedAt).toEqual(expect.any(Number));
+  });
+
+  test('why traces a recomputation back to the written signal', () => {
+    const { quantity, summary } = spreadsheet();
+    summary.subscribe(() => undefined);
+
+    quantity.set(3);
+
+    expect(why(summary)).toMatchObject({
+      label: 'summary',
+      value: 'Total: 30',
+      causes: [
+        {
+          label: 'total',
+          value: 30,
+          causes: [{ label: 'quantity', value: 3, causes: [] }],
+        },
+      ],
+    });
+  });
+
+  test('update times and causes are only recorded while tracing', () => {
+    const { quantity, summary } = spreadsheet();
+    summary.subscribe(() => undefined);
+    stopTracing();
+
+    quantity.set(3);
+    expect(inspect(quantity).updatedAt).toBeUndefined();
+    expect(why(summary).causes).toEqual([]);
+
+    stopTracing = startTracing();
+    quantity.set(4);
+    expect(why(summary).causes).toHaveLength(1);
+  });
+
+  test('a source dropped by a recomputation is no longer a cause', () => {
+    const enabled = label(signal(true), 'enabled');
+    const amount = label(signal(1), 'amount');
+    const shown = computed(() => (enabled.value() ? amount.value() : 0));
+    shown.subscribe(() => undefined);
+
+    batch(() => {
+      amount.set(2);
+      enabled.set(false);
+    });
+    expect(why(shown).causes.map((cause) => cause.label)).toEqual(['enabled']);
+  });
+
+  test('exports the graph to DOT and Mermaid', () => {
+    const { price: priceSignal, total } = spreadsheet();
+    total.value();
+
+    const { id: price } = inspect(priceSignal);
+    const { id: sum } = inspect(total);
+    const dot = toDot(total);
+    const mermaid = toMermaid(total);
+
+    expect(dot).toContain(`n${price} [label="price", shape=box];`);
+    expect(dot).toContain(`n${sum} [label="total", shape=ellipse];`);
+    expect(dot).toContain(`n${price} -> n${sum};`);
+    expect(mermaid).toContain(`n${price}["price"]`);
+    expect(mermaid).toContain(`n${sum}("total")`);
+    expect(mermaid).toContain(`n${price} --> n${sum}`);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Introspection - the dependency graph as data, for debugging and devtools
+ * `inspect(signal)` reports a signal's dependencies, dependents, subscriber
+ * count and last update time; `toDot` and `toMermaid` draw the graph around
+ * some signals, and `why(signal)` traces the writes behind its last
+ * recomputation
+ * Update times and causes are recorded while `startTracing` is on or
+ * devtools are connected; the rest of the graph is always available
+ * Dependents are the derived nodes currently linked to a signal: cold
+ * computeds, without subscribers or observing dependents, do not show up
+ */
+
+import { startTracing } from './devtools';
+import { nodeOf, ReactiveNode } from './graph';
+import { ReadonlySignal } from './signal';
+
+export { startTracing };
+
+/**
+ * A node of the graph as seen from outside
+ */
+export interface NodeRef {
+  readonly id: number;
+  readonly label: string;
+  readonly kind: 'signal' | 'computed';
+}
+
+export interface SignalInfo extends NodeRef {
+  readonly value: unknown; // last known value, without recomputing
+  readonly error?: unknown; // present while the node holds an error
+  readonly version: number;
+  readonly runs: number; // evaluations, for computeds
+  readonly dependencies: readonly NodeRef[];
+  readonly dependents: readonly NodeRef[];
+  readonly subscribers: number;
+  readonly updatedAt?: number; // scheduler time, absent unless traced
+  readonly closed: boolean;
+  readonly disposed: boolean;
+}
+
+/**
+ * Why a node holds its value: a signal was written, or a computed was
+ * recomputed because of `causes`, each traced in turn
+ * A computed without causes was evaluated for the first time or forced,
+ * e.g. by `retry`
+ */
+export interface Trace extends NodeRef {
+  readonly value: unknown;
+  readonly updatedAt?: number;
+  readonly causes: readonly Trace[];
+}
+
+export interface GraphExport {
+  readonly nodes: readonly NodeRef[];
+  readonly edges: readonly (readonly [from: number, to: number])[];
+}
+
+const ids = new WeakMap<ReactiveNode, number>();
+let nextId = 1;
+
+const nodeOfSignal = (target: ReadonlySignal<unknown>): ReactiveNode => {
+  const node = nodeOf(target.value);
+  if (!node) {
+    throw new TypeError('Not a signal created by resig');
+  }
+  return node;
+};
+
+const refOf = (node: ReactiveNode): NodeRef => {
+  let id = ids.get(node);
+  if (id === undefined) {
+    id = nextId++;
+    ids.set(node, id);
+  }
+  const kind = node.compute ? 'computed' : 'signal';
+  return { id, label: node.label ?? `${kind}#${id}`, kind };
+};
+
+/**
+ * Names a signal in introspection output instead of its generated label,
+ * like the `name` option
+ */
+export const label = <S extends ReadonlySignal<unknown>>(
+  target: S,
+  name: string,
+): S => {
+  nodeOfSignal(target).label = name;
+  return target;
+};
+
+/**
+ * Reports a signal's place in the graph
+ */
+export const inspect = (target: ReadonlySignal<unknown>): SignalInfo => {
+  const node = nodeOfSignal(target);
+  return {
+    ...refOf(node),
+    value: node.value,
+    ...(node.failed && { error: node.error }),
+    version: node.version,
+    runs: node.runs,
+    dependencies: [...node.sources.keys()].map(refOf),
+    dependents: [...node.observers].map(refOf),
+    subscribers: node.subscribers.size,
+    ...(node.updatedAt >= 0 && { updatedAt: node.updatedAt }),
+    closed: node.closed,
+    disposed: node.disposed,
+  };
+};
+
+const trace = (node: ReactiveNode, seen: Set<ReactiveNode>): Trace => {
+  seen.add(node);
+  return {
+    ...refOf(node),
+    value: node.value,
+    ...(node.updatedAt >= 0 && { updatedAt: node.updatedAt }),
+    causes: node.causes
+      .filter((source) => !seen.has(source))
+      .map((source) => trace(source, seen)),
+  };
+};
+
+/**
+ * Traces the last recomputation of a signal down to the writes causing it
+ */
+export const why = (target: ReadonlySignal<unknown>): Trace =>
+  trace(nodeOfSignal(target), new Set());
+
+/**
+ * Collects the nodes connected to `roots`, upstream and downstream, and
+ * the edges from each source to its dependents
+ */
+export const graphOf = (...roots: ReadonlySignal<unknown>[]): GraphExport => {
+  const nodes = new Set<ReactiveNode>();
+  const visit = (node: ReactiveNode) => {
+    if (nodes.has(node)) {
+      return;
+    }
+    nodes.add(node);
+    node.sources.forEach((_, source) => visit(source));
+    node.observers.forEach(visit);
+  };
+  roots.forEach((root) => visit(nodeOfSignal(root)));
+
+  const edges: (readonly [number, number])[] = [];
+  nodes.forEach((node) =>
+    node.sources.forEach((_, source) =>
+      edges.push([refOf(source).id, refOf(node).id]),
+    ),
+  );
+  return { nodes: [...nodes].map(refOf), edges };
+};
+
+const quote = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Graphviz DOT for the graph around `roots`: signals as boxes, computeds
+ * as ellipses, edges from sources to dependents
+ */
+export const toDot = (...roots: ReadonlySignal<unknown>[]): string => {
+  const { nodes, edges } = graphOf(...roots);
+  return [
+    'digraph signals {',
+    ...nodes.map(
+      (node) =>
+        `  n${node.id} [label=${quote(node.label)}, shape=${
+          node.kind === 'signal' ? 'box' : 'ellipse'
+        }];`,
+    ),
+    ...edges.map(([from, to]) => `  n${from} -> n${to};`),
+    '}',
+  ].join('\n');
+};
+
+/**
+ * Mermaid flowchart for the graph around `roots`, drawn like `toDot`
+ */
+export const toMermaid = (...roots: ReadonlySignal<unknown>[]): string => {
+  const { nodes, edges } = graphOf(...roots);
+  return [
+    'graph LR',
+    ...nodes.map((node) => {
+      const text = `"${node.label.replace(/"/g, '#quot;')}"`;
+      return node.kind === 'signal'
+        ? `  n${node.id}[${text}]`
+        : `  n${node.id}(${text})`;
+    }),
+    ...edges.map(([from, to]) => `  n${from} --> n${to}`),
+  ].join('\n');
+};
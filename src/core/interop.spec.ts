@@ -0,0 +1,161 @@
+import { EventEmitter } from 'events';
+
+import {
+  fromAsyncIterable,
+  fromEvent,
+  fromObservable,
+  fromReadableStream,
+} from './interop';
+import { observable, Observer, Subscribable } from './observable';
+import { createScope } from './scope';
+import { signal } from './signal';
+
+// Hand-rolled observable: `emit` pushes to every current observer
+const subject = <A>() => {
+  const observers = new Set<Observer<A>>();
+  const source: Subscribable<A> = {
+    subscribe: (observerOrNext) => {
+      const observer =
+        typeof observerOrNext === 'function'
+          ? { next: observerOrNext }
+          : observerOrNext;
+      observers.add(observer);
+      return { unsubscribe: () => observers.delete(observer) };
+    },
+  };
+  return {
+    source,
+    observers,
+    emit: (value: A) => observers.forEach((observer) => observer.next(value)),
+    end: () => observers.forEach((observer) => observer.complete()),
+  };
+};
+
+describe('observable interop', () => {
+  test('a signal is an interop observable starting with its value', () => {
+    const count = signal(1);
+    const seen: number[] = [];
+    const complete = jest.fn();
+
+    const subscription = count[observable]().subscribe({
+      next: (value) => seen.push(value),
+      complete,
+    });
+    count.set(2);
+    subscription.unsubscribe();
+    count.set(3);
+
+    expect(seen).toEqual([1, 2]);
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  test('for await yields every change until the signal completes', async () => {
+    const count = signal(1);
+    const seen: number[] = [];
+
+    const done = (async () => {
+      for await (const value of count) {
+        seen.push(value);
+      }
+    })();
+    count.set(2);
+    count.set(3);
+    count.complete();
+    await done;
+
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  test('breaking out of the loop unsubscribes', async () => {
+    const count = signal(1);
+    for await (const value of count) {
+      expect(value).toBe(1);
+      break;
+    }
+
+    const seen = jest.fn();
+    count.subscribe(seen);
+    count.set(2);
+    expect(seen).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('interop constructors', () => {
+  test('fromObservable follows values and completion', () => {
+    const { source, emit, end } = subject<number>();
+    const latest = fromObservable(source, 0);
+
+    emit(1);
+    expect(latest.value()).toBe(1);
+
+    end();
+    expect(latest.isClosed()).toBe(true);
+  });
+
+  test('fromObservable reads a signal through the interop contract', () => {
+    const count = signal(1);
+    const mirrored = fromObservable(count);
+
+    count.set(2);
+
+    expect(mirrored.value()).toBe(2);
+  });
+
+  test('disposing the signal unsubscribes from the observable', () => {
+    const { source, observers } = subject<number>();
+    const scope = createScope();
+    scope.run(() => fromObservable(source));
+
+    expect(observers.size).toBe(1);
+    scope.dispose();
+    expect(observers.size).toBe(0);
+  });
+
+  test('fromAsyncIterable follows an async generator to its end', async () => {
+    async function* numbers() {
+      yield 1;
+      yield 2;
+    }
+    const latest = fromAsyncIterable(numbers());
+    const complete = new Promise<void>((resolve) =>
+      latest.subscribe(() => undefined, undefined, resolve),
+    );
+
+    await complete;
+
+    expect(latest.value()).toBe(2);
+  });
+
+  test('fromReadableStream holds the latest chunk', async () => {
+    const stream = new ReadableStream<string>({
+      start: (controller) => {
+        controller.enqueue('a');
+        controller.enqueue('b');
+        controller.close();
+      },
+    });
+    const latest = fromReadableStream(stream);
+    const complete = new Promise<void>((resolve) =>
+      latest.subscribe(() => undefined, undefined, resolve),
+    );
+
+    await complete;
+
+    expect(latest.value()).toBe('b');
+  });
+
+  test('fromEvent listens to an EventEmitter until disposed', () => {
+    const emitter = new EventEmitter();
+    const seen = jest.fn();
+    const ticks = fromEvent<number>(emitter, 'tick');
+    ticks.subscribe(seen);
+
+    emitter.emit('tick', 1);
+    emitter.emit('tick', 1);
+    ticks.dispose();
+    emitter.emit('tick', 2);
+
+    expect(seen.mock.calls).toEqual([[1], [1]]);
+    expect(emitter.listenerCount('tick')).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Interop Constructors - signals fed by other push sources
+ * Each signal follows its source until the source ends, which completes the
+ * signal, or until the signal is disposed, which releases the source
+ */
+
+import { always } from './equality';
+import { fail, nodeOf } from './graph';
+import { InteropObservable, observable, Subscribable } from './observable';
+import { withCleanup } from './scope';
+import {
+  ownedReadonly,
+  Signal,
+  signal,
+  SignalOptions,
+  WritableSignal,
+} from './signal';
+
+export interface EventEmitterLike {
+  readonly on: (
+    name: string | symbol,
+    listener: (value: unknown) => void,
+  ) => unknown;
+  readonly off: (
+    name: string | symbol,
+    listener: (value: unknown) => void,
+  ) => unknown;
+}
+
+const failSignal = <A>(target: WritableSignal<A>, error: unknown) =>
+  fail(nodeOf(target.value)!, error);
+
+/**
+ * Follows an observable (RxJS, zen-observable, another signal…): holds
+ * `initial` until the first value arrives
+ */
+export function fromObservable<A>(
+  source: Subscribable<A> | InteropObservable<A>,
+): Signal<A | undefined>;
+export function fromObservable<A>(
+  source: Subscribable<A> | InteropObservable<A>,
+  initial: A,
+  options?: SignalOptions<A>,
+): Signal<A>;
+export function fromObservable<A>(
+  source: Subscribable<A> | InteropObservable<A>,
+  initial?: A,
+  options?: SignalOptions<A>,
+): Signal<A> {
+  const result = signal(initial, options);
+  const interop = source as Partial<InteropObservable<A>>;
+  const target =
+    typeof interop[observable] === 'function'
+      ? interop[observable]()
+      : (source as Subscribable<A>);
+
+  const subscription = target.subscribe({
+    next: result.set,
+    error: (error) => failSignal(result, error),
+    complete: result.complete,
+  });
+  return withCleanup(ownedReadonly(result), () => subscription.unsubscribe());
+}
+
+// Feeds the results of `pull` into a signal until the source is done or the
+// signal is disposed
+const drain = <A>(
+  pull: () => Promise<IteratorResult<A>>,
+  cancel: () => void,
+  initial: A,
+  options?: SignalOptions<A>,
+): Signal<A> => {
+  const result = signal(initial, options);
+  let cancelled = false;
+
+  const run = async () => {
+    try {
+      for (;;) {
+        const { value, done } = await pull();
+        if (cancelled) {
+          return;
+        }
+        if (done) {
+          result.complete();
+          return;
+        }
+        result.set(value);
+      }
+    } catch (error) {
+      if (!cancelled) {
+        failSignal(result, error);
+      }
+    }
+  };
+
+  run();
+  return withCleanup(ownedReadonly(result), () => {
+    cancelled = true;
+    cancel();
+  });
+};
+
+/**
+ * Follows an async iterable, e.g. an async generator or a Node stream;
+ * disposing the signal stops the iteration
+ */
+export function fromAsyncIterable<A>(
+  source: AsyncIterable<A>,
+): Signal<A | undefined>;
+export function fromAsyncIterable<A>(
+  source: AsyncIterable<A>,
+  initial: A,
+  options?: SignalOptions<A>,
+): Signal<A>;
+export function fromAsyncIterable<A>(
+  source: AsyncIterable<A>,
+  initial?: A,
+  options?: SignalOptions<A>,
+): Signal<A> {
+  const iterator = source[Symbol.asyncIterator]();
+  return drain(
+    () => iterator.next(),
+    () => {
+      iterator.return?.().catch(() => undefined);
+    },
+    initial,
+    options,
+  );
+}
+
+/**
+ * Follows the chunks of a web `ReadableStream`; disposing the signal
+ * cancels the stream
+ */
+export function fromReadableStream<A>(
+  source: ReadableStream<A>,
+): Signal<A | undefined>;
+export function fromReadableStream<A>(
+  source: ReadableStream<A>,
+  initial: A,
+  options?: SignalOptions<A>,
+): Signal<A>;
+export function fromReadableStream<A>(
+  source: ReadableStream<A>,
+  initial?: A,
+  options?: SignalOptions<A>,
+): Signal<A> {
+  const reader = source.getReader();
+  return drain(
+    () => reader.read() as Promise<IteratorResult<A>>,
+    () => {
+      reader.cancel().catch(() => undefined);
+    },
+    initial,
+    options,
+  );
+}
+
+/**
+ * Holds the latest event of a DOM `EventTarget` or a Node `EventEmitter`;
+ * every event is a change, even one equal to the previous
+ */
+export const fromEvent = <E = Event>(
+  target: EventTarget | EventEmitterLike,
+  name: string,
+  options: SignalOptions<E | undefined> = {},
+): Signal<E | undefined> => {
+  const result = signal<E | undefined>(undefined, {
+    equals: always,
+    ...options,
+  });
+  const listener = (event: unknown) => result.set(event as E);
+
+  if ('addEventListener' in target) {
+    target.addEventListener(name, listener);
+    return withCleanup(ownedReadonly(result), () =>
+      target.removeEventListener(name, listener),
+    );
+  }
+  target.on(name, listener);
+  return withCleanup(ownedReadonly(result), () => target.off(name, listener));
+};
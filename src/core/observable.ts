@@ -0,0 +1,177 @@
+/**
+ * Observable Protocols - interop with other reactive libraries
+ * Every signal implements the `Symbol.observable` contract, so RxJS and
+ * friends accept it (`from(signal)`), and `Symbol.asyncIterator`, so it can
+ * be consumed with `for await`. Both start with the current value, end when
+ * the signal completes and fail with the errors it holds
+ */
+
+import { ReadonlySignal } from './signal';
+
+declare global {
+  interface SymbolConstructor {
+    readonly observable: symbol;
+  }
+}
+
+/**
+ * Key of the observable interop method: `Symbol.observable` where it is
+ * polyfilled, `'@@observable'` otherwise (the same lookup RxJS does)
+ */
+export const observable: typeof Symbol.observable = (Symbol.observable ??
+  '@@observable') as typeof Symbol.observable;
+
+export interface Observer<A> {
+  readonly next?: (value: A) => void;
+  readonly error?: (error: unknown) => void;
+  readonly complete?: () => void;
+}
+
+export interface Subscription {
+  readonly unsubscribe: () => void;
+}
+
+/**
+ * Minimal observable accepted and produced by the interop contract
+ */
+export interface Subscribable<A> {
+  readonly subscribe: (
+    observer: Observer<A> | ((value: A) => void),
+  ) => Subscription;
+}
+
+/**
+ * Anything exposing the interop method, like an RxJS `Observable`
+ */
+export interface InteropObservable<A> {
+  readonly [Symbol.observable]: () => Subscribable<A>;
+}
+
+/**
+ * Observable view of a signal, itself interop-compatible
+ */
+export interface ObservableLike<A>
+  extends Subscribable<A>,
+    InteropObservable<A> {
+  readonly [Symbol.observable]: () => ObservableLike<A>;
+}
+
+/**
+ * Views a signal as an observable: observers get the current value right
+ * away, then every change
+ */
+export const toObservable = <A>(
+  source: ReadonlySignal<A>,
+): ObservableLike<A> => {
+  const interop: ObservableLike<A> = {
+    subscribe: (observerOrNext) => {
+      const observer: Observer<A> =
+        typeof observerOrNext === 'function'
+          ? { next: observerOrNext }
+          : observerOrNext;
+      // Called as methods: class-based observers rely on `this`
+      const onError = observer.error
+        ? (error: unknown) => observer.error(error)
+        : undefined;
+
+      let current: A;
+      try {
+        current = source.peek();
+      } catch (error) {
+        if (!onError) {
+          throw error;
+        }
+        onError(error);
+        return { unsubscribe: () => undefined };
+      }
+      observer.next?.(current);
+
+      const unsubscribe = source.subscribe(
+        (value) => observer.next?.(value),
+        onError,
+        () => observer.complete?.(),
+      );
+      return { unsubscribe };
+    },
+
+    [observable]: () => interop,
+  };
+  return interop;
+};
+
+type IteratorEvent<A> =
+  | { readonly value: A }
+  | { readonly error: unknown }
+  | { readonly done: true };
+
+/**
+ * Iterates over a signal: the current value, then every change, buffered
+ * until the consumer pulls it. Breaking out of the loop unsubscribes
+ */
+export const toAsyncIterator = <A>(
+  source: ReadonlySignal<A>,
+): AsyncIterableIterator<A> => {
+  const events: IteratorEvent<A>[] = [];
+  const waiting: ((event: IteratorEvent<A>) => void)[] = [];
+  let finished = false;
+
+  const push = (event: IteratorEvent<A>) => {
+    const pull = waiting.shift();
+    if (pull) {
+      pull(event);
+    } else {
+      events.push(event);
+    }
+  };
+
+  try {
+    push({ value: source.peek() });
+  } catch (error) {
+    push({ error });
+  }
+  const unsubscribe = source.subscribe(
+    (value) => push({ value }),
+    (error) => push({ error }),
+    () => push({ done: true }),
+  );
+
+  const finish = () => {
+    finished = true;
+    unsubscribe();
+    events.length = 0;
+    waiting.splice(0).forEach((pull) => pull({ done: true }));
+  };
+
+  const settle = (event: IteratorEvent<A>): IteratorResult<A> => {
+    if ('value' in event) {
+      return { value: event.value, done: false };
+    }
+    finish();
+    if ('error' in event) {
+      throw event.error;
+    }
+    return { value: undefined, done: true };
+  };
+
+  const iterator: AsyncIterableIterator<A> = {
+    next: async () => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const event =
+        events.shift() ??
+        (await new Promise<IteratorEvent<A>>((resolve) =>
+          waiting.push(resolve),
+        ));
+      return settle(event);
+    },
+
+    return: async () => {
+      finish();
+      return { value: undefined, done: true };
+    },
+
+    [Symbol.asyncIterator]: () => iterator,
+  };
+  return iterator;
+};
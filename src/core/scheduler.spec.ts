@@ -0,0 +1,113 @@
+import { debounce, interval } from '../algebras/time';
+
+import { batch } from './batch';
+import { effect } from './effect';
+import {
+  createScheduler,
+  microtaskScheduler,
+  Scheduler,
+  setScheduler,
+} from './scheduler';
+import { signal } from './signal';
+
+// Virtual clock: timers only fire when the test advances time
+const virtualScheduler = () => {
+  let now = 0;
+  let nextHandle = 0;
+  const timers = new Map<number, { at: number; fn: () => void }>();
+
+  const scheduler: Scheduler = {
+    schedule: (task) => task(),
+    setTimeout: (fn, ms) => {
+      timers.set(++nextHandle, { at: now + ms, fn });
+      return nextHandle;
+    },
+    clearTimeout: (handle) => timers.delete(handle as number),
+    now: () => now,
+  };
+
+  const advance = (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const [handle, timer] = [...timers].sort(
+        ([, a], [, b]) => a.at - b.at,
+      )[0] ?? [undefined, undefined];
+      if (!timer || timer.at > until) {
+        break;
+      }
+      timers.delete(handle!);
+      now = timer.at;
+      timer.fn();
+    }
+    now = until;
+  };
+
+  return { scheduler, advance };
+};
+
+describe('schedulers', () => {
+  test('the microtask scheduler coalesces writes', async () => {
+    const restore = setScheduler(microtaskScheduler);
+    const count = signal(0);
+    const seen = jest.fn();
+    count.subscribe(seen);
+
+    count.set(1);
+    count.set(2);
+    count.set(3);
+    expect(seen).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    restore();
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveBeenCalledWith(3);
+  });
+
+  test('a signal can deliver through its own scheduler', () => {
+    const tasks: (() => void)[] = [];
+    const manual = createScheduler((task) => tasks.push(task));
+    const count = signal(0, { scheduler: manual });
+    const doubled = count.map((n) => n * 2);
+    const seen = jest.fn();
+    const seenDoubled = jest.fn();
+    count.subscribe(seen);
+    doubled.subscribe(seenDoubled);
+
+    batch(() => {
+      count.set(1);
+      count.set(2);
+    });
+    count.set(3);
+    expect(seen).not.toHaveBeenCalled();
+    expect(seenDoubled).toHaveBeenCalledWith(6);
+
+    tasks.splice(0).forEach((task) => task());
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveBeenCalledWith(3);
+  });
+
+  test('time operators run on the app-wide scheduler', () => {
+    const { scheduler, advance } = virtualScheduler();
+    const restore = setScheduler(scheduler);
+    const input = effect('');
+    const debounced = debounce(300, input);
+    const ticks = interval(1000, 'tick');
+    const seen = jest.fn();
+    const seenTicks = jest.fn();
+    debounced.subscribe(seen);
+    ticks.subscribe(seenTicks);
+
+    input.set('a');
+    advance(200);
+    input.set('ab');
+    advance(299);
+    expect(seen).not.toHaveBeenCalled();
+
+    advance(1);
+    expect(seen).toHaveBeenCalledWith('ab');
+
+    advance(3000);
+    restore();
+    expect(seenTicks).toHaveBeenCalledTimes(3);
+  });
+});
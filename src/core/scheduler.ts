@@ -0,0 +1,81 @@
+/**
+ * Schedulers - decide when notifications are delivered and timers fire
+ * The app-wide scheduler drives flushes and the timers of the time algebra;
+ * a signal given its own scheduler delivers its notifications through it
+ */
+
+export type TimerHandle = unknown;
+
+export interface Scheduler {
+  // Runs a task: immediately, or later to coalesce several writes
+  readonly schedule: (task: () => void) => void;
+  readonly setTimeout: (fn: () => void, ms: number) => TimerHandle;
+  readonly clearTimeout: (handle: TimerHandle) => void;
+  readonly now: () => number;
+}
+
+const timers = {
+  setTimeout: (fn: () => void, ms: number): TimerHandle => setTimeout(fn, ms),
+  clearTimeout: (handle: TimerHandle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now(),
+};
+
+/**
+ * Notifies synchronously, inside the write - the default
+ */
+export const syncScheduler: Scheduler = {
+  ...timers,
+  schedule: (task) => task(),
+};
+
+/**
+ * Coalesces every write of the current task into one microtask
+ */
+export const microtaskScheduler: Scheduler = {
+  ...timers,
+  schedule: (task) => queueMicrotask(task),
+};
+
+/**
+ * Notifies before the next paint; falls back to a 16ms timeout outside
+ * the browser
+ */
+export const animationFrameScheduler: Scheduler = {
+  ...timers,
+  schedule: (task) => {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => task());
+    } else {
+      setTimeout(task, 16);
+    }
+  },
+};
+
+/**
+ * Builds a scheduler from a custom `schedule`, keeping the timers of `base`
+ */
+export const createScheduler = (
+  schedule: (task: () => void) => void,
+  base: Scheduler = syncScheduler,
+): Scheduler => ({ ...base, schedule });
+
+let activeScheduler: Scheduler = syncScheduler;
+
+/**
+ * Replaces the app-wide scheduler; returns a function restoring the
+ * previous one
+ */
+export const setScheduler = (scheduler: Scheduler): (() => void) => {
+  const previousScheduler = activeScheduler;
+  activeScheduler = scheduler;
+  return () => {
+    activeScheduler = previousScheduler;
+  };
+};
+
+/**
+ * Returns `scheduler` if given, the app-wide scheduler otherwise
+ */
+export const getScheduler = (scheduler?: Scheduler): Scheduler =>
+  scheduler ?? activeScheduler;
@@ -0,0 +1,62 @@
+import { debounce } from '../algebras/time';
+
+import { effect } from './effect';
+import { createScope } from './scope';
+import { computed, signal } from './signal';
+
+describe('scopes', () => {
+  test('dispose derivations created inside the scope', () => {
+    const source = signal(1);
+    const scope = createScope();
+    const compute = jest.fn(() => source.value() * 2);
+    const doubled = scope.run(() => computed(compute));
+    const seen = jest.fn();
+    doubled.subscribe(seen);
+
+    scope.dispose();
+    source._set(2);
+
+    expect(seen).not.toHaveBeenCalled();
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(doubled.value()).toBe(2);
+  });
+
+  test('nested scopes are disposed with their parent', () => {
+    const parent = createScope();
+    const cleanup = jest.fn();
+    parent.run(() => createScope().onDispose(cleanup));
+
+    parent.dispose();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  test('release subscriptions held by effects and timers', () => {
+    jest.useFakeTimers();
+    const source = effect(0);
+    const scope = createScope();
+    const bound = scope.run(() => source.bind((x) => effect(x + 1)));
+    const debounced = scope.run(() => debounce(10, source));
+
+    scope.dispose();
+    source._set(5);
+    jest.runAllTimers();
+
+    expect(bound.value()).toBe(1);
+    expect(debounced.value()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  test('dispose detaches a derived signal from upstream', () => {
+    const source = signal('a');
+    const upper = source.map((s) => s.toUpperCase());
+    const seen = jest.fn();
+    upper.subscribe(seen);
+
+    upper.dispose();
+    source._set('b');
+
+    expect(seen).not.toHaveBeenCalled();
+    expect(upper.value()).toBe('A');
+  });
+});
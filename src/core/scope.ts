@@ -0,0 +1,92 @@
+/**
+ * Ownership Scopes - lifetimes for derivations and subscriptions
+ * Everything created while a scope runs is torn down when it is disposed
+ */
+
+export interface Scope {
+  readonly run: <R>(fn: () => R) => R;
+  readonly onDispose: (fn: () => void) => () => void; // unregister
+  readonly dispose: () => void;
+}
+
+let activeScope: Scope | undefined;
+
+/**
+ * Creates a scope; a scope created inside another one is owned by it until
+ * either is disposed
+ */
+export const createScope = (): Scope => {
+  const cleanups = new Set<() => void>();
+  let disposed = false;
+  let releaseParent = (): void => undefined;
+
+  const scope: Scope = {
+    run: <R>(fn: () => R): R => {
+      const previousScope = activeScope;
+      activeScope = scope;
+      try {
+        return fn();
+      } finally {
+        activeScope = previousScope;
+      }
+    },
+
+    onDispose: (fn: () => void) => {
+      if (disposed) {
+        fn();
+        return () => undefined;
+      }
+      // Wrapped so registering the same function twice runs it twice
+      const cleanup = () => fn();
+      cleanups.add(cleanup);
+      return () => cleanups.delete(cleanup);
+    },
+
+    // Tears down in reverse creation order, so dependents go first
+    dispose: () => {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      releaseParent();
+      const pending = [...cleanups].reverse();
+      cleanups.clear();
+      pending.forEach((fn) => fn());
+    },
+  };
+
+  if (activeScope) {
+    releaseParent = activeScope.onDispose(scope.dispose);
+  }
+  return scope;
+};
+
+/**
+ * Returns the scope currently running, if any
+ */
+export const getScope = (): Scope | undefined => activeScope;
+
+/**
+ * Registers teardown with the scope currently running
+ */
+export const onDispose = (fn: () => void): (() => void) =>
+  activeScope?.onDispose(fn) ?? (() => undefined);
+
+/**
+ * Extends a signal's `dispose` with extra teardown and ties it to the
+ * current scope
+ */
+export const withCleanup = <S extends { readonly dispose: () => void }>(
+  target: S,
+  cleanup: () => void,
+): S => {
+  const disposable: S = {
+    ...target,
+    dispose: () => {
+      cleanup();
+      target.dispose();
+    },
+  };
+  onDispose(disposable.dispose);
+  return disposable;
+};
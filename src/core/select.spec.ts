@@ -0,0 +1,100 @@
+import { shallowEqual } from './equality';
+import { inspect } from './inspect';
+import { computedFamily, family, select } from './select';
+import { signal } from './signal';
+
+// Resolves once pending microtasks have run
+const settle = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+describe('select', () => {
+  test('notifies only when the selected part changes', () => {
+    const todos = signal([
+      { id: 1, done: false },
+      { id: 2, done: true },
+    ]);
+    const seen = jest.fn();
+    const doneIds = select(
+      todos,
+      (list) => list.filter((todo) => todo.done).map((todo) => todo.id),
+      shallowEqual,
+    );
+    doneIds.subscribe(seen);
+
+    todos.update((list) => [...list, { id: 3, done: false }]);
+    expect(seen).not.toHaveBeenCalled();
+
+    todos.update((list) => list.map((todo) => ({ ...todo, done: true })));
+    expect(seen).toHaveBeenCalledWith([1, 2, 3]);
+  });
+});
+
+describe('family', () => {
+  test('caches one member per key, objects keyed by value', () => {
+    const create = jest.fn(([row, column]: [number, number]) =>
+      signal(`${row}:${column}`),
+    );
+    const cells = family(create);
+
+    expect(cells([1, 2])).toBe(cells([1, 2]));
+    expect(cells([2, 1]).value()).toBe('2:1');
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  test('evicts the least recently used member beyond max', () => {
+    const create = jest.fn((n: number) => signal(n * n));
+    const squares = family(create, { max: 2 });
+
+    squares(1);
+    squares(2);
+    squares(1);
+    squares(3);
+
+    expect(squares.has(1)).toBe(true);
+    expect(squares.has(2)).toBe(false);
+    expect(squares.has(3)).toBe(true);
+    expect(squares(2).value()).toBe(4);
+    expect(create).toHaveBeenCalledTimes(4);
+  });
+
+  test('computedFamily evicts members with refCount once unsubscribed', async () => {
+    const todos = signal(['write', 'test']);
+    const todoAt = computedFamily((index: number) => todos.value()[index], {
+      refCount: true,
+    });
+
+    const unsubscribe = todoAt(1).subscribe(() => undefined);
+    expect(todoAt(1).value()).toBe('test');
+
+    unsubscribe();
+    await settle();
+    expect(todoAt.has(1)).toBe(false);
+  });
+
+  test('computedFamily members get the signal options', () => {
+    const points = signal({ x: 1, y: 1 });
+    const axis = computedFamily(
+      (key: 'x' | 'y') => ({ value: points.value()[key] }),
+      { equals: (a, b) => a.value === b.value, name: 'axis', max: 1 },
+    );
+    const seen = jest.fn();
+    axis('x').subscribe(seen);
+
+    points.set({ x: 1, y: 2 });
+    expect(seen).not.toHaveBeenCalled();
+    points.set({ x: 3, y: 2 });
+    expect(seen).toHaveBeenCalledWith({ value: 3 });
+    expect(inspect(axis('x')).label).toBe('axis(x)');
+  });
+
+  test('a member resubscribed before the check is kept', async () => {
+    const todoAt = computedFamily((index: number) => index, {
+      refCount: true,
+    });
+
+    todoAt(0).subscribe(() => undefined)();
+    todoAt(0).subscribe(() => undefined);
+    await settle();
+
+    expect(todoAt.has(0)).toBe(true);
+  });
+});
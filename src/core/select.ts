@@ -0,0 +1,161 @@
+/**
+ * Selectors and Families - cached derivations
+ * A selector notifies only when its result changes under its equality; a
+ * family hands out one signal per key, created on first use and evicted
+ * when the cache is full (least recently used first) or, with `refCount`,
+ * once its last subscriber leaves
+ */
+
+import { Equals, strictEqual } from './equality';
+import { microtaskScheduler } from './scheduler';
+import { createScope, Scope } from './scope';
+import { computed, ReadonlySignal, Signal, SignalOptions } from './signal';
+
+/**
+ * Derives a part of `source`; dependents are notified only when the part
+ * changes according to `equals`, e.g. `shallowEqual` for a fresh array
+ */
+export const select = <A, B>(
+  source: ReadonlySignal<A>,
+  selector: (value: A) => B,
+  equals: Equals<B> = strictEqual,
+): Signal<B> => computed(() => selector(source.value()), { equals });
+
+export interface FamilyOptions<K> {
+  // Number of members kept; the least recently used one is evicted first
+  readonly max?: number;
+  // Evicts a member once its last subscriber unsubscribes
+  readonly refCount?: boolean;
+  // Identifies a key in the cache; objects and arrays default to their JSON
+  readonly keyOf?: (key: K) => unknown;
+}
+
+/**
+ * Signals by key: calling the family returns the cached member for a key
+ */
+export interface Family<K, S> {
+  (key: K): S;
+  readonly has: (key: K) => boolean;
+  readonly delete: (key: K) => void;
+  readonly clear: () => void;
+  readonly dispose: () => void;
+}
+
+interface Member<S> {
+  signal: S;
+  readonly scope: Scope;
+  subscribers: number;
+}
+
+const defaultKeyOf = (key: unknown): unknown =>
+  typeof key === 'object' && key !== null ? JSON.stringify(key) : key;
+
+/**
+ * Creates a family of signals built by `create`, each in its own scope that
+ * eviction disposes
+ * Members evicted while computeds still read them keep their last value, so
+ * `refCount` suits members consumed through `subscribe`, e.g. by hooks
+ */
+export const family = <K, S extends Signal<unknown>>(
+  create: (key: K) => S,
+  options: FamilyOptions<K> = {},
+): Family<K, S> => {
+  const { max = Infinity, refCount = false, keyOf = defaultKeyOf } = options;
+  const owner = createScope();
+  // In order of use, least recent first
+  const members = new Map<unknown, Member<S>>();
+
+  const evict = (id: unknown) => {
+    const member = members.get(id);
+    if (member) {
+      members.delete(id);
+      member.scope.dispose();
+    }
+  };
+
+  // Counts subscriptions, evicting the member once they are all gone and
+  // none was made again in the meantime
+  const counted = (id: unknown, member: Member<S>, signal: S): S => ({
+    ...signal,
+    subscribe: (
+      fn: (value: unknown) => void,
+      onError?: (error: unknown) => void,
+      onComplete?: () => void,
+    ) => {
+      member.subscribers++;
+      const unsubscribe = signal.subscribe(fn, onError, onComplete);
+      let active = true;
+      return () => {
+        if (!active) {
+          return;
+        }
+        active = false;
+        unsubscribe();
+        member.subscribers--;
+        microtaskScheduler.schedule(() => {
+          if (member.subscribers === 0 && members.get(id) === member) {
+            evict(id);
+          }
+        });
+      };
+    },
+  });
+
+  const get = (key: K): S => {
+    const id = keyOf(key);
+    const cached = members.get(id);
+    if (cached) {
+      members.delete(id);
+      members.set(id, cached);
+      return cached.signal;
+    }
+
+    const scope = owner.run(createScope);
+    const created = scope.run(() => create(key));
+    const member: Member<S> = { signal: created, scope, subscribers: 0 };
+    if (refCount) {
+      member.signal = counted(id, member, created);
+    }
+    members.set(id, member);
+    if (members.size > max) {
+      evict(members.keys().next().value);
+    }
+    return member.signal;
+  };
+
+  return Object.assign(get, {
+    has: (key: K) => members.has(keyOf(key)),
+    delete: (key: K) => evict(keyOf(key)),
+    clear: () => [...members.keys()].forEach(evict),
+    dispose: () => {
+      members.clear();
+      owner.dispose();
+    },
+  });
+};
+
+/**
+ * Family of computeds, one per key: `computedFamily((id) => todos.value()[id])`
+ * The signal options apply to every member; with a `name`, members are
+ * named after it and their key, e.g. `todo(1)`
+ */
+export const computedFamily = <K, A>(
+  compute: (key: K) => A,
+  options: FamilyOptions<K> & SignalOptions<A> = {},
+): Family<K, Signal<A>> => {
+  const {
+    max,
+    refCount,
+    keyOf = defaultKeyOf,
+    name,
+    ...signalOptions
+  } = options;
+  return family(
+    (key: K) =>
+      computed(() => compute(key), {
+        ...signalOptions,
+        ...(name !== undefined && { name: `${name}(${String(keyOf(key))})` }),
+      }),
+    { max, refCount, keyOf },
+  );
+};
@@ -0,0 +1,395 @@
+import resig, { computed as exported, useComputed } from '..';
+
+import { batch } from './batch';
+import { always, deepEqual, shallowEqual } from './equality';
+import { createNode, nodeOf, refresh, subscribe, track } from './graph';
+import { computed, isWritable, on, readonly, signal, untrack } from './signal';
+
+describe('computed', () => {
+  test('tracks dependencies automatically', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const sum = computed(() => a.value() + b.value());
+
+    expect(sum.value()).toBe(3);
+    a._set(10);
+    expect(sum.value()).toBe(12);
+  });
+
+  test('evaluates lazily', () => {
+    const a = signal(1);
+    const compute = jest.fn(() => a.value() * 2);
+    const doubled = computed(compute);
+
+    expect(compute).not.toHaveBeenCalled();
+    a._set(2);
+    a._set(3);
+    expect(compute).not.toHaveBeenCalled();
+    expect(doubled.value()).toBe(6);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  test('re-tracks dependencies when branches change', () => {
+    const flag = signal(true);
+    const a = signal('a');
+    const b = signal('b');
+    const compute = jest.fn(() => (flag.value() ? a.value() : b.value()));
+    const picked = computed(compute);
+    const seen: string[] = [];
+    picked.subscribe((value) => seen.push(value));
+
+    flag._set(false);
+    a._set('a2'); // no longer a dependency
+    b._set('b2');
+
+    expect(seen).toEqual(['b', 'b2']);
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  test('is what the package exports, outside React too', () => {
+    expect(exported).toBe(computed);
+    expect(resig.computed).toBe(computed);
+    expect(exported).not.toBe(useComputed);
+
+    const a = signal(1);
+    expect(exported(() => a.value() + 1).value()).toBe(2);
+  });
+});
+
+describe('laziness', () => {
+  test('map stays cold until read or subscribed', () => {
+    const source = signal(1);
+    const f = jest.fn((x: number) => x * 2);
+    const doubled = source.map(f);
+
+    source.set(2);
+    expect(f).not.toHaveBeenCalled();
+
+    expect(doubled.value()).toBe(4);
+    expect(doubled.value()).toBe(4);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  test('unobserved derived signals are not recomputed on writes', () => {
+    const source = signal(1);
+    const compute = jest.fn(() => source.value() + 1);
+    const next = computed(compute);
+    next.value();
+
+    source.set(2);
+    source.set(3);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(next.value()).toBe(4);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  test('derived nodes are linked upstream only while observed', () => {
+    const source = createNode(1);
+    const derived = createNode(0, () => {
+      track(source);
+      return source.value * 2;
+    });
+
+    refresh(derived);
+    expect(source.observers.size).toBe(0);
+
+    const unsubscribe = subscribe(derived, () => undefined);
+    expect(source.observers.has(derived)).toBe(true);
+
+    unsubscribe();
+    expect(source.observers.size).toBe(0);
+  });
+
+  test('re-subscribing resumes propagation after a detach', () => {
+    const source = signal(1);
+    const inner = jest.fn(() => source.value() * 2);
+    const outer = jest.fn(() => middle.value() + 1);
+    const middle = computed(inner);
+    const leaf = computed(outer);
+
+    const unsubscribe = leaf.subscribe(() => undefined);
+    source.set(2);
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(outer).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    source.set(3);
+    source.set(4);
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(outer).toHaveBeenCalledTimes(2);
+
+    const seen = jest.fn();
+    leaf.subscribe(seen);
+    expect(leaf.value()).toBe(9);
+    source.set(5);
+    expect(seen).toHaveBeenCalledWith(11);
+  });
+});
+
+describe('propagation', () => {
+  test('diamond dependencies recompute once and never glitch', () => {
+    const a = signal(1);
+    const left = a.map((x) => x * 2);
+    const right = a.map((x) => x + 10);
+    const combine = jest.fn(() => `${left.value()}|${right.value()}`);
+    const joined = computed(combine);
+    const seen: string[] = [];
+    joined.subscribe((value) => seen.push(value));
+    combine.mockClear();
+
+    a._set(2);
+
+    expect(seen).toEqual(['4|12']);
+    expect(combine).toHaveBeenCalledTimes(1);
+  });
+
+  test('fan-out notifies every dependent once with consistent values', () => {
+    const source = signal(0);
+    const computes = Array.from({ length: 5 }, (_, i) =>
+      jest.fn(() => source.value() + i),
+    );
+    const seen: number[][] = computes.map(() => []);
+    computes.forEach((fn, i) =>
+      computed(fn).subscribe((value) => seen[i].push(value)),
+    );
+
+    source._set(10);
+
+    expect(seen).toEqual([[10], [11], [12], [13], [14]]);
+    computes.forEach((fn) => expect(fn).toHaveBeenCalledTimes(2));
+  });
+
+  test('deep chains propagate in topological order', () => {
+    const source = signal(0);
+    const order: number[] = [];
+    let tail = source.map((x) => x);
+    const chain = [tail];
+    for (let depth = 1; depth < 50; depth++) {
+      tail = tail.map((x) => x + 1);
+      chain.push(tail);
+    }
+    // Subscribe from the deepest node up to check ordering is by rank
+    [...chain]
+      .reverse()
+      .forEach((node, i) =>
+        node.subscribe(() => order.push(chain.length - 1 - i)),
+      );
+
+    source._set(1);
+
+    expect(tail.value()).toBe(50);
+    expect(order).toEqual(chain.map((_, depth) => depth));
+  });
+
+  test('subscribers read consistent derived values', () => {
+    const first = signal('Ada');
+    const last = signal('Lovelace');
+    const full = computed(() => `${first.value()} ${last.value()}`);
+    const initials = computed(() => first.value()[0] + last.value()[0]);
+    const observed: string[] = [];
+    first.subscribe(() => observed.push(`${full.value()}:${initials.value()}`));
+
+    first._set('Augusta');
+
+    expect(observed).toEqual(['Augusta Lovelace:AL']);
+  });
+
+  test('unchanged derived values stop propagation', () => {
+    const a = signal(1);
+    const parity = a.map((x) => x % 2);
+    const downstream = jest.fn(() => parity.value());
+    computed(downstream).subscribe(() => undefined);
+    downstream.mockClear();
+
+    a._set(3);
+
+    expect(downstream).not.toHaveBeenCalled();
+  });
+});
+
+describe('dependency control', () => {
+  test('untrack reads without creating a dependency', () => {
+    const count = signal(1);
+    const factor = signal(10);
+    const compute = jest.fn(() => count.value() * untrack(factor.value));
+    const scaled = computed(compute);
+    const seen = jest.fn();
+    scaled.subscribe(seen);
+
+    factor.set(100);
+    expect(seen).not.toHaveBeenCalled();
+
+    count.set(2);
+    expect(seen).toHaveBeenCalledWith(200);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  test('peek returns the current value untracked', () => {
+    const source = signal(1);
+    const doubled = source.map((x) => x * 2);
+    const other = signal('a');
+    const reads = computed(() => `${other.value()}${doubled.peek()}`);
+    const seen = jest.fn();
+    reads.subscribe(seen);
+
+    source.set(5);
+    expect(seen).not.toHaveBeenCalled();
+    expect(doubled.peek()).toBe(10);
+
+    other.set('b');
+    expect(seen).toHaveBeenCalledWith('b10');
+  });
+
+  test('on tracks only the named dependencies', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const config = signal('+');
+    const label = computed(on([a, b], ([x, y]) => `${x}${config.value()}${y}`));
+    const seen = jest.fn();
+    label.subscribe(seen);
+
+    config.set('-');
+    expect(seen).not.toHaveBeenCalled();
+
+    b.set(3);
+    expect(seen).toHaveBeenCalledWith('1-3');
+  });
+});
+
+describe('equality', () => {
+  test('custom equality suppresses equal writes', () => {
+    const point = signal({ x: 1, y: 2 }, { equals: shallowEqual });
+    const seen = jest.fn();
+    point.subscribe(seen);
+
+    point._set({ x: 1, y: 2 });
+    expect(seen).not.toHaveBeenCalled();
+
+    point._set({ x: 1, y: 3 });
+    expect(seen).toHaveBeenCalledWith({ x: 1, y: 3 });
+  });
+
+  test('derived signals stop propagation on structurally equal values', () => {
+    const items = signal([1, 2, 3]);
+    const evens = items.map((list) => list.filter((n) => n % 2 === 0), {
+      equals: deepEqual,
+    });
+    const seen = jest.fn();
+    evens.subscribe(seen);
+
+    items._set([1, 2, 3, 5]);
+    expect(seen).not.toHaveBeenCalled();
+
+    items._set([2, 4]);
+    expect(seen).toHaveBeenCalledWith([2, 4]);
+  });
+
+  test('always notifies on every write', () => {
+    const tick = signal(0, { equals: always });
+    const seen = jest.fn();
+    tick.subscribe(seen);
+
+    tick._set(0);
+    tick._set(0);
+
+    expect(seen).toHaveBeenCalledTimes(2);
+  });
+
+  test('deepEqual compares nested structures', () => {
+    expect(
+      deepEqual(
+        { a: [1, { b: new Date(0) }], m: new Map([['k', new Set([1])]]) },
+        { a: [1, { b: new Date(0) }], m: new Map([['k', new Set([1])]]) },
+      ),
+    ).toBe(true);
+    expect(deepEqual({ a: [1, 2] }, { a: [1, 3] })).toBe(false);
+    expect(shallowEqual({ a: {} }, { a: {} })).toBe(false);
+  });
+});
+
+describe('writable signals', () => {
+  test('set and update write through the public API', () => {
+    const count = signal(1);
+    count.set(2);
+    count.update((n) => n * 10);
+    expect(count.value()).toBe(20);
+  });
+
+  test('asReadonly exposes a view without setters', () => {
+    const count = signal(1);
+    const view = count.asReadonly();
+
+    expect(isWritable(count)).toBe(true);
+    expect(isWritable(view)).toBe(false);
+    expect('set' in view).toBe(false);
+    expect('dispose' in view).toBe(false);
+    expect('dispose' in readonly(count)).toBe(false);
+
+    count.set(5);
+    expect(view.value()).toBe(5);
+  });
+});
+
+describe('completion', () => {
+  test('subscribers are told after the last value, later writes are ignored', () => {
+    const count = signal(1);
+    const events: string[] = [];
+    count.subscribe(
+      (value) => events.push(`next ${value}`),
+      undefined,
+      () => events.push('complete'),
+    );
+
+    batch(() => {
+      count.set(2);
+      count.complete();
+    });
+    count.set(3);
+
+    expect(events).toEqual(['next 2', 'complete']);
+    expect(count.isClosed()).toBe(true);
+    expect(count.value()).toBe(2);
+  });
+
+  test('subscribing to a completed signal only completes', () => {
+    const done = signal('final');
+    done.complete();
+    const next = jest.fn();
+    const complete = jest.fn();
+
+    done.subscribe(next, undefined, complete);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  test('a computed completes once every source has completed', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const sum = computed(() => a.value() + b.value());
+    const doubled = sum.map((n) => n * 2);
+    const complete = jest.fn();
+    doubled.subscribe(() => undefined, undefined, complete);
+
+    a.complete();
+    expect(doubled.isClosed()).toBe(false);
+
+    b.set(3);
+    b.complete();
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(doubled.value()).toBe(8);
+  });
+
+  test('a completed chain releases its subscribers and sources', () => {
+    const source = signal(1);
+    const doubled = source.map((n) => n * 2);
+    doubled.subscribe(() => undefined);
+    const sourceNode = nodeOf(source.value)!;
+    const doubledNode = nodeOf(doubled.value)!;
+
+    source.complete();
+
+    expect(doubledNode.subscribers.size).toBe(0);
+    expect(sourceNode.observers.size).toBe(0);
+  });
+});
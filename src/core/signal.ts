@@ -3,10 +3,73 @@
  * Following category-theoretic laws for structure preservation
  */
 
-export interface Signal<A> {
+import { creatingKind, withDevtools } from './devtools';
+import { Equals, strictEqual } from './equality';
+import {
+  complete,
+  createNode,
+  dispose,
+  read,
+  refresh,
+  register,
+  subscribe,
+  track,
+  untracked,
+  write,
+} from './graph';
+import {
+  observable,
+  ObservableLike,
+  toAsyncIterator,
+  toObservable,
+} from './observable';
+import { Scheduler } from './scheduler';
+import { onDispose } from './scope';
+
+/**
+ * A signal that can only be read and subscribed to - read-only views and
+ * the inputs of plugins have this type
+ */
+export interface ReadonlySignal<A> {
   readonly value: () => A;
-  readonly map: <B>(f: (a: A) => B) => Signal<B>;
-  readonly subscribe: (fn: (a: A) => void) => () => void; // unsubscribe
+  readonly peek: () => A; // read without becoming a dependency
+  readonly map: <B>(f: (a: A) => B, options?: SignalOptions<B>) => Signal<B>;
+  readonly subscribe: (
+    fn: (a: A) => void,
+    onError?: (error: unknown) => void, // receives errors the signal holds
+    onComplete?: () => void, // called once the signal has completed
+  ) => () => void; // unsubscribe
+  readonly isClosed: () => boolean; // completed: the value is final
+  readonly [Symbol.observable]: () => ObservableLike<A>;
+  readonly [Symbol.asyncIterator]: () => AsyncIterableIterator<A>;
+}
+
+/**
+ * A signal its owner can dispose - derived values have this type
+ */
+export interface Signal<A> extends ReadonlySignal<A> {
+  readonly dispose: () => void; // detach from upstream and drop subscribers
+}
+
+/**
+ * A source signal with a public write API
+ */
+export interface WritableSignal<A> extends Signal<A> {
+  readonly set: (value: A) => void;
+  readonly update: (f: (current: A) => A) => void;
+  readonly asReadonly: () => ReadonlySignal<A>;
+  readonly complete: () => void; // later writes are ignored
+  /** @deprecated use `set` */
+  readonly _set: (value: A) => void;
+}
+
+export interface SignalOptions<A> {
+  // Decides whether a new value is a change; defaults to `strictEqual`
+  readonly equals?: Equals<A>;
+  // Delivers this signal's notifications; defaults to the app-wide scheduler
+  readonly scheduler?: Scheduler;
+  // Shown by introspection and devtools
+  readonly name?: string;
 }
 
 /**
@@ -17,45 +80,184 @@ export interface Signal<A> {
  */
 export const signal = <A>(
   initial: A,
-): Signal<A> & { _set: (value: A) => void } => {
-  let current = initial;
-  const subscribers = new Set<(value: A) => void>();
+  options: SignalOptions<A> = {},
+): WritableSignal<A> => {
+  const equals = options.equals ?? strictEqual;
+  const node = createNode(initial, undefined, equals, options.scheduler);
+  node.label = options.name;
 
-  const notify = () => {
-    subscribers.forEach((fn) => fn(current));
+  const set = (value: A) => {
+    if (node.failed || !equals(node.value, value)) {
+      write(node, value);
+    }
   };
 
-  const signalInstance: Signal<A> & { _set: (value: A) => void } = {
-    value: () => current,
+  const signalInstance: WritableSignal<A> = {
+    value: () => {
+      track(node);
+      return read(node);
+    },
+
+    peek: () => read(node),
 
-    map: <B>(f: (a: A) => B): Signal<B> => {
-      // Create derived signal that follows functor laws
-      const derived = signal(f(current));
+    // Derived signals join the graph, so diamonds stay glitch-free
+    map: <B>(f: (a: A) => B, mapOptions?: SignalOptions<B>): Signal<B> =>
+      computed(() => f(signalInstance.value()), mapOptions),
 
-      // Subscribe to changes and map them
-      signalInstance.subscribe((newValue) => {
-        derived._set(f(newValue));
-      });
+    subscribe: (
+      fn: (a: A) => void,
+      onError?: (error: unknown) => void,
+      onComplete?: () => void,
+    ) => subscribe(node, fn, onError, onComplete),
 
-      return derived;
+    isClosed: () => node.closed,
+
+    dispose: () => dispose(node),
+
+    set,
+
+    update: (f: (current: A) => A) => set(f(node.value)),
+
+    asReadonly: () => readonly(signalInstance),
+
+    complete: () => complete(node),
+
+    _set: set,
+
+    [observable]: () => toObservable(signalInstance),
+
+    [Symbol.asyncIterator]: () => toAsyncIterator(signalInstance),
+  };
+
+  register(signalInstance.value, node);
+  onDispose(signalInstance.dispose);
+  const kind = creatingKind('signal');
+  withDevtools((hook) => hook.created(node, kind, initial, options.name));
+  return signalInstance;
+};
+
+/**
+ * Creates a derived signal with automatic dependency tracking
+ * Every signal read during `compute` becomes a dependency; the set is
+ * re-collected on each evaluation, so branches that stop reading a signal
+ * also stop depending on it. Evaluation is lazy: a computed stays cold until
+ * it is read or subscribed, and once its last subscriber leaves it detaches
+ * from upstream and is only recomputed when read after a dependency changed.
+ * If `compute` throws, the computed holds the error: `value()` rethrows it
+ * and dependents fail with it too.
+ * Created inside a scope, it is disposed together with the scope.
+ */
+export const computed = <A>(
+  compute: () => A,
+  options: SignalOptions<A> = {},
+): Signal<A> => {
+  const node = createNode<A>(
+    undefined as A,
+    compute,
+    options.equals,
+    options.scheduler,
+  );
+  node.label = options.name;
+
+  const computedInstance: Signal<A> = {
+    value: () => {
+      track(node);
+      refresh(node);
+      return read(node);
     },
 
-    subscribe: (fn: (a: A) => void) => {
-      subscribers.add(fn);
-      return () => subscribers.delete(fn);
+    peek: () => {
+      refresh(node);
+      return read(node);
     },
 
-    _set: (value: A) => {
-      if (value !== current) {
-        current = value;
-        notify();
-      }
+    map: <B>(f: (a: A) => B, mapOptions?: SignalOptions<B>): Signal<B> =>
+      computed(() => f(computedInstance.value()), mapOptions),
+
+    subscribe: (
+      fn: (a: A) => void,
+      onError?: (error: unknown) => void,
+      onComplete?: () => void,
+    ) => subscribe(node, fn, onError, onComplete),
+
+    isClosed: () => {
+      refresh(node);
+      return node.closed;
     },
+
+    dispose: () => dispose(node),
+
+    [observable]: () => toObservable(computedInstance),
+
+    [Symbol.asyncIterator]: () => toAsyncIterator(computedInstance),
   };
 
-  return signalInstance;
+  register(computedInstance.value, node);
+  onDispose(computedInstance.dispose);
+  withDevtools((hook) =>
+    hook.created(node, 'computed', undefined, options.name),
+  );
+  return computedInstance;
+};
+
+/**
+ * Runs `fn` without tracking: signals it reads do not become dependencies
+ * of the surrounding computed
+ */
+export const untrack = <R>(fn: () => R): R => untracked(fn);
+
+/**
+ * Values of a tuple of signals
+ */
+export type SignalValues<S extends readonly ReadonlySignal<unknown>[]> = {
+  [K in keyof S]: S[K] extends ReadonlySignal<infer A> ? A : never;
 };
 
+/**
+ * Explicit dependencies: the returned function tracks only `deps` and runs
+ * `fn` untracked, e.g. `computed(on([a, b], ([x, y]) => x + y))`
+ */
+export const on =
+  <S extends readonly ReadonlySignal<unknown>[], R>(
+    deps: [...S],
+    fn: (values: SignalValues<S>) => R,
+  ) =>
+  (): R => {
+    const values = deps.map((dep) => dep.value()) as SignalValues<S>;
+    return untracked(() => fn(values));
+  };
+
+/**
+ * Read-only view of a signal; neither the write API nor `dispose` is
+ * reachable through it, so holders of the view cannot end the source
+ */
+export const readonly = <A>(source: ReadonlySignal<A>): ReadonlySignal<A> => ({
+  value: source.value,
+  peek: source.peek,
+  map: source.map,
+  subscribe: source.subscribe,
+  isClosed: source.isClosed,
+  [observable]: source[observable],
+  [Symbol.asyncIterator]: source[Symbol.asyncIterator],
+});
+
+/**
+ * Read-only view of a signal its owner can still dispose: what derived
+ * signals built on an internal writable signal return
+ */
+export const ownedReadonly = <A>(source: Signal<A>): Signal<A> => ({
+  ...readonly(source),
+  dispose: source.dispose,
+});
+
+/**
+ * Checks whether a signal exposes the public write API
+ */
+export const isWritable = <A>(
+  source: ReadonlySignal<A>,
+): source is WritableSignal<A> =>
+  typeof (source as Partial<WritableSignal<A>>).set === 'function';
+
 /**
  * Identity function for functor law verification
  */
@@ -72,4 +274,7 @@ export const compose =
 /**
  * Pure function - lifts a value into Signal context
  */
-export const pure = <A>(value: A): Signal<A> => signal(value);
+export const pure = <A>(
+  value: A,
+  options?: SignalOptions<A>,
+): ReadonlySignal<A> => signal(value, options).asReadonly();
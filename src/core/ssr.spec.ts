@@ -0,0 +1,78 @@
+import { fetch } from '../algebras/fetch';
+
+import { createScope } from './scope';
+import { signal } from './signal';
+import { clearRegistry, hydrate, named, serverValue, snapshot } from './ssr';
+
+// Resolves once pending promise callbacks have run
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe('ssr snapshots', () => {
+  afterEach(clearRegistry);
+
+  test('snapshot collects named signals into JSON', () => {
+    const count = named('count', signal(1));
+    named('user', signal({ name: 'Ada' }));
+    count.set(2);
+
+    const doc = JSON.parse(JSON.stringify(snapshot()));
+
+    expect(doc).toEqual({
+      version: 1,
+      values: { count: 2, user: { name: 'Ada' } },
+    });
+  });
+
+  test('hydrate seeds signals registered before and after it', () => {
+    const before = named('before', signal(0));
+
+    hydrate({ version: 1, values: { before: 1, after: 2 } });
+    const after = named('after', signal(0));
+
+    expect(before.value()).toBe(1);
+    expect(after.value()).toBe(2);
+    expect(serverValue('after', () => 0)).toBe(2);
+    expect(serverValue('missing', () => 3)).toBe(3);
+  });
+
+  test('named fetches ship their data and skip the request once hydrated', async () => {
+    const server = fetch(() => Promise.resolve(['todo']), [], {
+      name: 'todos',
+    });
+    expect(snapshot().values).toEqual({});
+    await settle();
+    const doc = snapshot();
+    expect(doc.values).toEqual({ todos: { data: ['todo'] } });
+    server.dispose();
+
+    clearRegistry();
+    hydrate(doc);
+    const fetcher = jest.fn(() => Promise.resolve(['other']));
+    const client = fetch(fetcher, [], { name: 'todos' });
+
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(client.value()).toEqual({ data: ['todo'], loading: false });
+  });
+
+  test('fetches derived from a named fetch keep its entry', async () => {
+    let requests = 0;
+    const todos = fetch(() => Promise.resolve(++requests), [], {
+      name: 'todos',
+    });
+    todos.refetch();
+    todos.retry(2);
+    await settle();
+
+    expect(requests).toBeGreaterThan(1);
+    expect(snapshot().values).toEqual({ todos: { data: 1 } });
+  });
+
+  test('disposing the scope unregisters the signal', () => {
+    const scope = createScope();
+    scope.run(() => named('count', signal(1)));
+
+    scope.dispose();
+
+    expect(snapshot().values).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * SSR Snapshots - named signals serialized on the server, restored on the
+ * client
+ * `snapshot()` collects the value of every registered signal into a JSON
+ * document; `hydrate(doc)` seeds the registered signals with it, and those
+ * registered later as they appear, so it can run before adapters mount
+ * The registry is global: on a server rendering several requests, clear it
+ * between renders
+ */
+
+import { batched } from './graph';
+import { onDispose } from './scope';
+
+/**
+ * Serialized values by signal name
+ */
+export interface SnapshotDocument {
+  readonly version: 1;
+  readonly values: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * How a named entry is saved and restored; `serialize` returns `undefined`
+ * for nothing to save yet, e.g. a fetch still loading
+ */
+export interface Serializable {
+  readonly serialize: () => unknown;
+  readonly restore: (value: unknown) => void;
+}
+
+const entries = new Map<string, Serializable>();
+// Values of the last hydrated document, and those no entry has claimed yet
+let hydrated: Record<string, unknown> = {};
+const pending = new Set<string>();
+
+const claim = (name: string, entry: Serializable) => {
+  if (pending.delete(name)) {
+    entry.restore(hydrated[name]);
+  }
+};
+
+/**
+ * Registers an entry under `name`, replacing any previous one, and restores
+ * it right away if a hydrated value is waiting; returns a function removing
+ * it, which the current scope also calls when disposed
+ */
+export const registerSerializable = (
+  name: string,
+  entry: Serializable,
+): (() => void) => {
+  entries.set(name, entry);
+  claim(name, entry);
+
+  const unregister = () => {
+    if (entries.get(name) === entry) {
+      entries.delete(name);
+    }
+  };
+  onDispose(unregister);
+  return unregister;
+};
+
+/**
+ * Registers a writable signal under `name` for snapshots and hydration
+ */
+export const named = <
+  S extends {
+    readonly peek: () => unknown;
+    readonly set: (value: never) => void;
+  },
+>(
+  name: string,
+  target: S,
+): S => {
+  registerSerializable(name, {
+    serialize: target.peek,
+    restore: target.set as (value: unknown) => void,
+  });
+  return target;
+};
+
+/**
+ * Collects the value of every registered signal
+ */
+export const snapshot = (): SnapshotDocument => {
+  const values: Record<string, unknown> = {};
+  entries.forEach((entry, name) => {
+    const value = entry.serialize();
+    if (value !== undefined) {
+      values[name] = value;
+    }
+  });
+  return { version: 1, values };
+};
+
+/**
+ * Seeds registered signals from a snapshot, in one batch; names registered
+ * later are seeded on registration
+ */
+export const hydrate = (doc: SnapshotDocument) => {
+  hydrated = { ...doc.values };
+  pending.clear();
+  Object.keys(hydrated).forEach((name) => pending.add(name));
+  batched(() => entries.forEach((entry, name) => claim(name, entry)));
+};
+
+/**
+ * The value a name had on the server: the hydrated one if any, `fallback`
+ * otherwise, e.g. for React's `getServerSnapshot`
+ */
+export const serverValue = <A>(name: string, fallback: () => A): A =>
+  name in hydrated ? (hydrated[name] as A) : fallback();
+
+/**
+ * Forgets every registered entry and hydrated value
+ */
+export const clearRegistry = () => {
+  entries.clear();
+  hydrated = {};
+  pending.clear();
+};
@@ -0,0 +1,123 @@
+import { computed } from './signal';
+import { produce, store, storeVersion, unwrap } from './store';
+
+const initial = () => ({
+  user: { name: 'Ada', age: 36 },
+  todos: [{ title: 'write', done: false }],
+});
+
+describe('store', () => {
+  test('computeds depend only on the paths they read', () => {
+    const [state, setStore] = store(initial());
+    const compute = jest.fn(() => state.user.name.toUpperCase());
+    const name = computed(compute);
+    name.subscribe(() => undefined);
+
+    setStore(['user', 'age'], 37);
+    expect(name.value()).toBe('ADA');
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    setStore(['user', 'name'], 'Grace');
+    expect(name.value()).toBe('GRACE');
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  test('writing an equal value notifies nobody', () => {
+    const [state, setStore] = store(initial());
+    const compute = jest.fn(() => `${state.user.name} ${state.todos.length}`);
+    computed(compute).subscribe(() => undefined);
+
+    setStore(['user', 'name'], 'Ada');
+    setStore((draft) => {
+      draft.todos.length = 1;
+    });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  test('replacing an object notifies readers of its fields', () => {
+    const [state, setStore] = store(initial());
+    const seen = jest.fn();
+    computed(() => state.user.name).subscribe(seen);
+
+    setStore(['user'], (user) => ({ ...user, name: 'Grace' }));
+
+    expect(seen).toHaveBeenCalledWith('Grace');
+    expect(state.user.age).toBe(36);
+  });
+
+  test('a recipe mutates a draft in one batch', () => {
+    const [state, setStore] = store(initial());
+    const seen = jest.fn();
+    computed(() => `${state.user.name} ${state.user.age}`).subscribe(seen);
+
+    setStore((draft) => {
+      draft.user.name = 'Grace';
+      draft.user.age = 45;
+    });
+
+    expect(seen.mock.calls).toEqual([['Grace 45']]);
+  });
+
+  test('produce updates an array in place and notifies length readers', () => {
+    const [state, setStore] = store(initial());
+    const count = computed(() => state.todos.length);
+    const titles = computed(() => state.todos.map((todo) => todo.title));
+    count.subscribe(() => undefined);
+    titles.subscribe(() => undefined);
+
+    setStore(
+      ['todos'],
+      produce((todos) => {
+        todos.push({ title: 'test', done: false });
+      }),
+    );
+    expect(count.value()).toBe(2);
+    expect(titles.value()).toEqual(['write', 'test']);
+
+    setStore(['todos', 0, 'done'], true);
+    expect(state.todos[0].done).toBe(true);
+    expect(titles.value()).toEqual(['write', 'test']);
+
+    setStore((draft) => {
+      draft.todos.length = 1;
+    });
+    expect(titles.value()).toEqual(['write']);
+  });
+
+  test('key iteration follows added and deleted keys', () => {
+    const [state, setStore] = store<{ tags: Record<string, boolean> }>({
+      tags: { a: true },
+    });
+    const keys = computed(() => Object.keys(state.tags));
+    keys.subscribe(() => undefined);
+
+    setStore(['tags', 'b'], true);
+    expect(keys.value()).toEqual(['a', 'b']);
+
+    setStore((draft) => {
+      delete draft.tags.a;
+    });
+    expect(keys.value()).toEqual(['b']);
+  });
+
+  test('the state is read-only and unwraps to plain data', () => {
+    const [state] = store(initial());
+
+    expect(() => {
+      (state.user as { name: string }).name = 'Grace';
+    }).toThrow('read-only');
+    expect(unwrap(state.user)).toEqual({ name: 'Ada', age: 36 });
+  });
+
+  test('the version counts updates', () => {
+    const [state, setStore] = store(initial());
+    const version = storeVersion(state);
+
+    setStore(['user', 'age'], 37);
+    setStore((draft) => {
+      draft.user.age = 38;
+    });
+
+    expect(version.value()).toBe(2);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Deep Store - nested state with one reactive node per property
+ * Reading `state.user.name` in a computation depends on `user` and `name`
+ * only, so writing another field leaves it alone; key additions and removals
+ * are tracked separately, by iteration and `in` checks
+ * Only plain objects and arrays are made reactive, other values are stored
+ * as they are
+ */
+
+import { batched, createNode, ReactiveNode, track, write } from './graph';
+import { ReadonlySignal, signal, WritableSignal } from './signal';
+
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Read-only view of a store's state
+ */
+export type Store<A> = A extends (...args: never[]) => unknown
+  ? A
+  : A extends object
+    ? { readonly [K in keyof A]: Store<A[K]> }
+    : A;
+
+/**
+ * Keys leading from the root of `A` to a nested value, at most 7 deep
+ */
+export type StorePath<A, D extends number = 7> = [D] extends [never]
+  ? never
+  : A extends readonly (infer E)[]
+    ? [number] | [number, ...StorePath<E, Depth[D]>]
+    : A extends (...args: never[]) => unknown
+      ? never
+      : A extends object
+        ? {
+            [K in keyof A]-?: [K] | [K, ...StorePath<A[K], Depth[D]>];
+          }[keyof A]
+        : never;
+
+/**
+ * Type of the value found at the end of `P`
+ */
+export type PathValue<A, P> = P extends [infer K, ...infer R]
+  ? A extends readonly (infer E)[]
+    ? K extends number
+      ? PathValue<E, R>
+      : never
+    : K extends keyof A
+      ? PathValue<A[K], R>
+      : never
+  : A;
+
+export interface SetStore<A> {
+  // Mutates a draft of the state: each assignment is written to the store
+  (recipe: (draft: A) => void): void;
+  // Sets the value at `path`, or updates it from the previous value
+  <P extends StorePath<A>>(
+    path: P,
+    value: PathValue<A, P> | ((prev: PathValue<A, P>) => PathValue<A, P>),
+  ): void;
+}
+
+type Target = Record<PropertyKey, unknown>;
+
+// Per raw object: one node per property read, and one for its set of keys
+const properties = new WeakMap<object, Map<PropertyKey, ReactiveNode>>();
+const shapes = new WeakMap<object, ReactiveNode<number>>();
+// Proxies per raw object, and the raw object behind each proxy
+const views = new WeakMap<object, object>();
+const drafts = new WeakMap<object, object>();
+const raws = new WeakMap<object, object>();
+// Number of updates made through each store's setter, by root view
+const versions = new WeakMap<object, WritableSignal<number>>();
+
+const isPlainData = (value: unknown): value is object => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) || prototype === Object.prototype || prototype === null
+  );
+};
+
+/**
+ * Returns the plain object behind a store or draft proxy; other values are
+ * returned as they are
+ */
+export const unwrap = <A>(value: A): A =>
+  (isPlainData(value) ? (raws.get(value) ?? value) : value) as A;
+
+// Proxies see array indices as strings, paths may spell them as numbers
+const keyOf = (key: PropertyKey) =>
+  typeof key === 'number' ? String(key) : key;
+
+const propertyNode = (target: object, key: PropertyKey) => {
+  let nodes = properties.get(target);
+  if (!nodes) {
+    nodes = new Map();
+    properties.set(target, nodes);
+  }
+  let node = nodes.get(key);
+  if (!node) {
+    node = createNode<unknown>((target as Target)[key]);
+    nodes.set(key, node);
+  }
+  return node;
+};
+
+const shapeNode = (target: object) => {
+  let node = shapes.get(target);
+  if (!node) {
+    node = createNode(0);
+    shapes.set(target, node);
+  }
+  return node;
+};
+
+// Writes a property node unless it already holds an equal value
+const writeChanged = (node: ReactiveNode, value: unknown) => {
+  if (!node.equals(node.value, value)) {
+    write(node, value);
+  }
+};
+
+const reshape = (target: object) => {
+  const node = shapes.get(target);
+  if (node) {
+    write(node, node.value + 1);
+  }
+};
+
+const setProperty = (target: object, name: PropertyKey, next: unknown) => {
+  const key = keyOf(name);
+  const value = unwrap(next);
+  const record = target as Target;
+  const added = !(key in record);
+  const length = record.length;
+  record[key] = value;
+
+  const nodes = properties.get(target);
+  if (nodes && Array.isArray(target)) {
+    // Assigning an index can grow an array, and truncating it through
+    // `length` drops elements without setting them
+    const lengthNode = nodes.get('length');
+    if (lengthNode) {
+      writeChanged(lengthNode, target.length);
+    }
+    for (let index = target.length; index < (length as number); index++) {
+      const dropped = nodes.get(String(index));
+      if (dropped) {
+        writeChanged(dropped, undefined);
+      }
+    }
+  }
+  const node = nodes?.get(key);
+  if (node) {
+    writeChanged(node, value);
+  }
+  if (added || record.length !== length) {
+    reshape(target);
+  }
+};
+
+const deleteProperty = (target: object, name: PropertyKey) => {
+  const key = keyOf(name);
+  if (!(key in target)) {
+    return;
+  }
+  delete (target as Target)[key];
+  const node = properties.get(target)?.get(key);
+  if (node) {
+    writeChanged(node, undefined);
+  }
+  reshape(target);
+};
+
+const proxy = (
+  target: object,
+  cache: WeakMap<object, object>,
+  handler: ProxyHandler<object>,
+) => {
+  let view = cache.get(target);
+  if (!view) {
+    view = new Proxy(target, handler);
+    cache.set(target, view);
+    raws.set(view, target);
+  }
+  return view;
+};
+
+const readOnly = (): never => {
+  throw new Error('Store state is read-only, update it with its setter');
+};
+
+const view = (target: object): object =>
+  proxy(target, views, {
+    get: (raw, key) => {
+      const value = unwrap(Reflect.get(raw, key));
+      if (typeof key === 'symbol' || typeof value === 'function') {
+        return value;
+      }
+      track(propertyNode(raw, key));
+      return isPlainData(value) ? view(value) : value;
+    },
+    has: (raw, key) => {
+      track(shapeNode(raw));
+      return Reflect.has(raw, key);
+    },
+    ownKeys: (raw) => {
+      track(shapeNode(raw));
+      return Reflect.ownKeys(raw);
+    },
+    set: readOnly,
+    deleteProperty: readOnly,
+    defineProperty: readOnly,
+  });
+
+// Drafts read without tracking and write through to the store
+const draft = (target: object): object =>
+  proxy(target, drafts, {
+    get: (raw, key) => {
+      const value = unwrap(Reflect.get(raw, key));
+      return isPlainData(value) ? draft(value) : value;
+    },
+    set: (raw, key, value) => {
+      setProperty(raw, key, value);
+      return true;
+    },
+    deleteProperty: (raw, key) => {
+      deleteProperty(raw, key);
+      return true;
+    },
+  });
+
+/**
+ * Turns a mutating recipe into an updater for a store setter, e.g.
+ * `setStore(['todos'], produce((todos) => todos.push(todo)))`
+ */
+export const produce =
+  <A>(recipe: (draft: A) => void) =>
+  (value: A): A => {
+    batched(() => recipe((isPlainData(value) ? draft(value) : value) as A));
+    return value;
+  };
+
+/**
+ * Creates a store: returns its read-only state, which computations track
+ * per property, and its setter
+ * Updaters receive the previous plain value; they return a new one, or
+ * mutate it through `produce`
+ * The store takes ownership of `initial` and its nested objects: updates
+ * mutate them in place, so pass a copy to keep the original unchanged
+ */
+export const store = <A extends object>(
+  initial: A,
+): [Store<A>, SetStore<A>] => {
+  const root = unwrap(initial);
+  const state = view(root) as Store<A>;
+  const version = signal(0);
+  versions.set(state, version);
+
+  const setStore = (...args: unknown[]) =>
+    batched(() => {
+      if (args.length === 1) {
+        produce(args[0] as (draft: A) => void)(root);
+      } else {
+        const [path, value] = args as [PropertyKey[], unknown];
+        const parent = path
+          .slice(0, -1)
+          .reduce<object>(
+            (target, key) => (target as Target)[key] as object,
+            root,
+          );
+        const key = path[path.length - 1];
+        setProperty(
+          parent,
+          key,
+          typeof value === 'function' ? value((parent as Target)[key]) : value,
+        );
+      }
+      version.update((count) => count + 1);
+    });
+
+  return [state, setStore as SetStore<A>];
+};
+
+/**
+ * Signal counting the updates made through a store's setter, for callers
+ * that follow the whole state, e.g. framework adapters
+ */
+export const storeVersion = <A>(state: Store<A>): ReadonlySignal<number> => {
+  const version = versions.get(state as object);
+  if (!version) {
+    throw new Error('storeVersion expects the root state of a store');
+  }
+  return version.asReadonly();
+};
@@ -0,0 +1,93 @@
+import { createScope } from './scope';
+import { signal } from './signal';
+import { watch, when } from './watch';
+
+describe('watch', () => {
+  test('runs on changes with the previous value', () => {
+    const count = signal(1);
+    const calls: [number, number | undefined][] = [];
+    watch(count, (value, previous) => calls.push([value, previous]));
+
+    count.set(2);
+    count.set(3);
+
+    expect(calls).toEqual([
+      [2, 1],
+      [3, 2],
+    ]);
+  });
+
+  test('immediate runs right away and once stops after one run', () => {
+    const count = signal(1);
+    const immediate = jest.fn();
+    const once = jest.fn();
+    watch(count, immediate, { immediate: true });
+    watch(count, once, { once: true });
+
+    expect(immediate).toHaveBeenCalledWith(1, undefined, expect.any(Function));
+    count.set(2);
+    count.set(3);
+
+    expect(immediate).toHaveBeenCalledTimes(3);
+    expect(once).toHaveBeenCalledTimes(1);
+  });
+
+  test('tracks getters and runs cleanups before the next run and on stop', () => {
+    const a = signal(1);
+    const b = signal(2);
+    const log: string[] = [];
+    const stop = watch(
+      () => a.value() + b.value(),
+      (sum, _previous, onCleanup) => {
+        log.push(`run ${sum}`);
+        onCleanup(() => log.push(`cleanup ${sum}`));
+      },
+    );
+
+    a.set(10);
+    b.set(20);
+    stop();
+    a.set(0);
+
+    expect(log).toEqual(['run 12', 'cleanup 12', 'run 30', 'cleanup 30']);
+  });
+
+  test('watchers are stopped with their scope', () => {
+    const count = signal(0);
+    const seen = jest.fn();
+    const scope = createScope();
+    scope.run(() => watch(count, seen));
+
+    scope.dispose();
+    count.set(1);
+
+    expect(seen).not.toHaveBeenCalled();
+  });
+
+  test('when resolves once the condition holds', async () => {
+    const user = signal<string | undefined>(undefined);
+    const ready = when(() => user.value());
+
+    user.set('ada');
+    await expect(ready).resolves.toBe('ada');
+    await expect(when(() => user.value() === 'ada')).resolves.toBe(true);
+  });
+
+  test('when rejects with an error the predicate throws later', async () => {
+    const user = signal<string | undefined>(undefined);
+    const check = jest.fn((name?: string) => {
+      if (name === 'eve') {
+        throw new Error('not allowed');
+      }
+      return name === 'ada';
+    });
+    const ready = when(() => check(user.value()));
+
+    user.set('eve');
+    await expect(ready).rejects.toThrow('not allowed');
+
+    user.set('bob');
+    expect(check).toHaveBeenCalledTimes(2);
+    await expect(when(() => check('eve'))).rejects.toThrow('not allowed');
+  });
+});
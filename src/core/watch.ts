@@ -0,0 +1,121 @@
+/**
+ * Watchers - side effects that follow a signal
+ * A watcher created inside a scope stops when the scope is disposed
+ */
+
+import { untracked } from './graph';
+import { createScope, onDispose } from './scope';
+import { computed, ReadonlySignal } from './signal';
+
+export interface WatchOptions {
+  // Run the callback right away with the current value
+  readonly immediate?: boolean;
+  // Stop after the first run
+  readonly once?: boolean;
+  // Receives the errors of the source, including one it holds right away;
+  // without it they are thrown
+  readonly onError?: (error: unknown) => void;
+}
+
+export type WatchCallback<A> = (
+  value: A,
+  previous: A | undefined,
+  onCleanup: (fn: () => void) => void, // runs before the next run and on stop
+) => void;
+
+/**
+ * Runs `callback` whenever `source` changes; a getter is tracked like a
+ * computed. Returns a function that stops the watcher.
+ */
+export const watch = <A>(
+  source: ReadonlySignal<A> | (() => A),
+  callback: WatchCallback<A>,
+  options: WatchOptions = {},
+): (() => void) => {
+  const owned = typeof source === 'function' ? computed(source) : undefined;
+  const target = owned ?? (source as ReadonlySignal<A>);
+  const cleanups: (() => void)[] = [];
+  let previous: A | undefined;
+  let stopped = false;
+
+  const runCleanups = () =>
+    cleanups
+      .splice(0)
+      .reverse()
+      .forEach((fn) => fn());
+
+  const stop = () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    unsubscribe();
+    runCleanups();
+    owned?.dispose();
+  };
+
+  const run = (value: A) => {
+    runCleanups();
+    const last = previous;
+    previous = value;
+    // Reads inside the callback never become dependencies
+    untracked(() => callback(value, last, (fn) => cleanups.push(fn)));
+    if (options.once) {
+      stop();
+    }
+  };
+
+  const unsubscribe = target.subscribe(run, options.onError);
+  onDispose(stop);
+
+  let initial: A;
+  try {
+    initial = target.peek();
+  } catch (error) {
+    if (!options.onError) {
+      throw error;
+    }
+    options.onError(error);
+    return stop;
+  }
+  if (options.immediate) {
+    run(initial);
+  } else {
+    previous = initial;
+  }
+  return stop;
+};
+
+/**
+ * MobX-style alias: `reaction(() => expression, effect)`
+ */
+export const reaction = watch;
+
+/**
+ * Resolves with the first truthy value of `predicate`, checking it right
+ * away and after every change of the signals it reads; rejects with the
+ * first error it throws
+ * Disposing the owning scope first stops watching; the promise stays pending
+ */
+export const when = <A>(predicate: () => A): Promise<A> =>
+  new Promise((resolve, reject) => {
+    const scope = createScope();
+    scope.run(() =>
+      watch(
+        predicate,
+        (value) => {
+          if (value) {
+            resolve(value);
+            scope.dispose();
+          }
+        },
+        {
+          immediate: true,
+          onError: (error) => {
+            reject(error);
+            scope.dispose();
+          },
+        },
+      ),
+    );
+  });
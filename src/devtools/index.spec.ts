@@ -0,0 +1,148 @@
+import { fetch } from '../algebras/fetch';
+import { fsm, machine } from '../algebras/state';
+import { computed, signal } from '../core/signal';
+
+import {
+  connect,
+  DevtoolsEvent,
+  memoryTransport,
+  postMessageTransport,
+  SocketLike,
+  websocketTransport,
+} from '.';
+
+// Resolves once pending promise callbacks have run
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Events with the entity's name instead of its id, and without their time;
+// `toEqual` ignores the cleared fields
+const strip = (events: readonly DevtoolsEvent[]) => {
+  const names = new Map<number, string | undefined>();
+  return events.map((event) => {
+    if (event.type === 'created') {
+      names.set(event.id, event.name);
+      return { ...event, id: undefined, time: undefined };
+    }
+    return {
+      ...event,
+      id: undefined,
+      time: undefined,
+      of: names.get(event.id),
+    };
+  });
+};
+
+describe('devtools', () => {
+  test('signals and computeds report creation, updates and disposal', async () => {
+    const sink = memoryTransport();
+    const disconnect = connect(sink);
+
+    const count = signal(1, { name: 'count' });
+    const doubled = computed(() => count.value() * 2, { name: 'doubled' });
+    doubled.subscribe(() => undefined);
+    count.set(2);
+    count.dispose();
+    expect(sink.events()).toEqual([]);
+
+    await settle();
+    disconnect();
+    expect(strip(sink.events())).toEqual([
+      { type: 'created', kind: 'signal', name: 'count', value: 1 },
+      { type: 'created', kind: 'computed', name: 'doubled', value: undefined },
+      { type: 'updated', of: 'doubled', value: 2 },
+      { type: 'updated', of: 'count', value: 2 },
+      { type: 'updated', of: 'doubled', value: 4 },
+      { type: 'disposed', of: 'count' },
+    ]);
+  });
+
+  test('machines report transitions and fetches their requests', async () => {
+    const sink = memoryTransport();
+    const disconnect = connect(sink, { kinds: ['machine', 'fetch'] });
+
+    const counter = machine(0, (n: number, by: number) => n + by, {
+      name: 'counter',
+    });
+    const light = fsm('red', [{ from: 'red', to: 'green', on: 'go' }], {
+      name: 'light',
+    });
+    counter.send(2);
+    light.send('go');
+    light.reset('red');
+    fetch(() => Promise.resolve('data'), [], { name: 'user' });
+
+    await settle();
+    disconnect();
+    const events = strip(sink.events());
+    expect(events.slice(0, 5)).toEqual([
+      { type: 'created', kind: 'machine', name: 'counter', value: 0 },
+      { type: 'created', kind: 'machine', name: 'light', value: 'red' },
+      { type: 'transition', of: 'counter', from: 0, to: 2, action: 2 },
+      {
+        type: 'transition',
+        of: 'light',
+        from: 'red',
+        to: 'green',
+        action: 'go',
+      },
+      { type: 'transition', of: 'light', from: 'green', to: 'red' },
+    ]);
+    expect(events).toContainEqual({
+      type: 'created',
+      kind: 'fetch',
+      name: 'user',
+      value: { loading: true },
+    });
+    expect(events).toContainEqual({ type: 'fetch-start', of: 'user' });
+    expect(events).toContainEqual({
+      type: 'fetch-end',
+      of: 'user',
+      result: { data: 'data', loading: false },
+    });
+  });
+
+  test('remote transports send plain JSON data', async () => {
+    const posted = jest.fn();
+    const socket: SocketLike & { open: () => void } = {
+      readyState: 0,
+      send: jest.fn(),
+      close: jest.fn(),
+      addEventListener: (_, listener) => {
+        socket.open = listener;
+      },
+      open: () => undefined,
+    };
+    const disconnect = connect([
+      postMessageTransport({ postMessage: posted }),
+      websocketTransport(socket),
+    ]);
+
+    const cyclic: { self?: unknown; format: () => string } = {
+      format: () => '',
+    };
+    cyclic.self = cyclic;
+    signal(cyclic, { name: 'cyclic' });
+    await settle();
+
+    expect(posted).toHaveBeenCalledWith(
+      {
+        source: 'resig-devtools',
+        events: [
+          expect.objectContaining({
+            name: 'cyclic',
+            value: { self: '[Circular]', format: '[Function format]' },
+          }),
+        ],
+      },
+      '*',
+    );
+    expect(socket.send).not.toHaveBeenCalled();
+    socket.open();
+    expect(JSON.parse((socket.send as jest.Mock).mock.calls[0][0])).toEqual(
+      posted.mock.calls[0][0].events,
+    );
+
+    disconnect();
+    expect(socket.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Devtools Protocol - what signals, effects, fetches and machines do, as a
+ * stream of structured events for a devtools panel
+ * `connect` installs the core's devtools hook: everything created from then
+ * on registers itself with an id and its `name` option, and its events are
+ * sent to the transports, batched per microtask
+ * Transports carry the stream: in memory for a panel in the same page,
+ * `postMessage` for a browser extension or an iframe, a WebSocket for a
+ * remote panel. The last two send values as plain JSON data
+ */
+
+import { EntityKind, setDevtoolsHook } from '../core/devtools';
+import { getScheduler, microtaskScheduler } from '../core/scheduler';
+
+export { EntityKind };
+
+export type DevtoolsEvent =
+  | {
+      readonly type: 'created';
+      readonly id: number;
+      readonly time: number;
+      readonly kind: EntityKind;
+      readonly name?: string;
+      readonly value: unknown; // undefined for a computed not read yet
+    }
+  | {
+      readonly type: 'updated';
+      readonly id: number;
+      readonly time: number;
+      readonly value?: unknown;
+      readonly error?: unknown; // present instead of `value` on failure
+    }
+  | { readonly type: 'disposed'; readonly id: number; readonly time: number }
+  | {
+      readonly type: 'transition';
+      readonly id: number;
+      readonly time: number;
+      readonly from: unknown;
+      readonly to: unknown;
+      readonly action?: unknown; // absent for a reset
+    }
+  | { readonly type: 'fetch-start'; readonly id: number; readonly time: number }
+  | {
+      readonly type: 'fetch-end';
+      readonly id: number;
+      readonly time: number;
+      readonly result: unknown; // the settled `AsyncState`
+    };
+
+export interface DevtoolsTransport {
+  readonly send: (events: readonly DevtoolsEvent[]) => void;
+  // Called on disconnect
+  readonly close?: () => void;
+}
+
+export interface DevtoolsOptions {
+  // Entity kinds to report; defaults to all of them
+  readonly kinds?: readonly EntityKind[];
+}
+
+// Ids survive reconnecting, so a panel never sees one reused
+const ids = new WeakMap<object, number>();
+let nextId = 1;
+
+/**
+ * Streams devtools events to `transports` until the returned function is
+ * called; entities created before connecting are not reported
+ */
+export const connect = (
+  transports: DevtoolsTransport | readonly DevtoolsTransport[],
+  options: DevtoolsOptions = {},
+): (() => void) => {
+  const targets = Array.isArray(transports) ? transports : [transports];
+  const tracked = new WeakSet<object>();
+  let pending: DevtoolsEvent[] = [];
+
+  const flush = () => {
+    const events = pending;
+    pending = [];
+    if (events.length > 0) {
+      targets.forEach((transport) => transport.send(events));
+    }
+  };
+
+  const emit = (
+    entity: object,
+    event: (id: number, time: number) => DevtoolsEvent,
+  ) => {
+    if (!tracked.has(entity)) {
+      return;
+    }
+    if (pending.length === 0) {
+      microtaskScheduler.schedule(flush);
+    }
+    pending.push(event(ids.get(entity)!, getScheduler().now()));
+  };
+
+  const restore = setDevtoolsHook({
+    created: (entity, kind, value, name) => {
+      if (options.kinds && !options.kinds.includes(kind)) {
+        return;
+      }
+      tracked.add(entity);
+      ids.set(entity, nextId++);
+      emit(entity, (id, time) => ({
+        type: 'created',
+        id,
+        time,
+        kind,
+        ...(name !== undefined && { name }),
+        value,
+      }));
+    },
+
+    updated: (entity, value, failed) =>
+      emit(entity, (id, time) => ({
+        type: 'updated',
+        id,
+        time,
+        ...(failed ? { error: value } : { value }),
+      })),
+
+    disposed: (entity) =>
+      emit(entity, (id, time) => ({ type: 'disposed', id, time })),
+
+    transition: (entity, from, to, action) =>
+      emit(entity, (id, time) => ({
+        type: 'transition',
+        id,
+        time,
+        from,
+        to,
+        ...(action !== undefined && { action }),
+      })),
+
+    fetchStarted: (entity) =>
+      emit(entity, (id, time) => ({ type: 'fetch-start', id, time })),
+
+    fetchEnded: (entity, result) =>
+      emit(entity, (id, time) => ({ type: 'fetch-end', id, time, result })),
+  });
+
+  let connected = true;
+  return () => {
+    if (!connected) {
+      return;
+    }
+    connected = false;
+    restore();
+    flush();
+    targets.forEach((transport) => transport.close?.());
+  };
+};
+
+/**
+ * Turns a value into plain JSON data: functions, symbols and bigints become
+ * strings, maps and sets arrays, errors their name and message, and
+ * circular references `'[Circular]'`
+ */
+export const toPlain = (
+  value: unknown,
+  ancestors: readonly object[] = [],
+): unknown => {
+  switch (typeof value) {
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`;
+    case 'symbol':
+    case 'bigint':
+      return value.toString();
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+  if (value === null) {
+    return null;
+  }
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+  const path = [...ancestors, value];
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Map) {
+    return [...value].map((entry) => toPlain(entry, path));
+  }
+  if (value instanceof Set || Array.isArray(value)) {
+    return [...value].map((item) => toPlain(item, path));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, toPlain(item, path)]),
+  );
+};
+
+/**
+ * A transport keeping the last `limit` events in memory, for a panel
+ * rendered by the app itself
+ */
+export interface MemoryTransport extends DevtoolsTransport {
+  readonly events: () => readonly DevtoolsEvent[];
+  // Called with each batch of events, and with none once cleared; returns
+  // an unsubscribe function
+  readonly subscribe: (
+    fn: (events: readonly DevtoolsEvent[]) => void,
+  ) => () => void;
+  readonly clear: () => void;
+}
+
+export const memoryTransport = (limit = 1000): MemoryTransport => {
+  let log: readonly DevtoolsEvent[] = [];
+  const listeners = new Set<(events: readonly DevtoolsEvent[]) => void>();
+
+  return {
+    send: (events) => {
+      log = [...log, ...events].slice(-limit);
+      listeners.forEach((fn) => fn(events));
+    },
+    events: () => log,
+    subscribe: (fn) => {
+      listeners.add(fn);
+      return () => listeners.delete(fn);
+    },
+    clear: () => {
+      log = [];
+      listeners.forEach((fn) => fn([]));
+    },
+  };
+};
+
+/**
+ * Tags the messages of the `postMessage` transport
+ */
+export const DEVTOOLS_MESSAGE_SOURCE = 'resig-devtools';
+
+export interface MessageTarget {
+  readonly postMessage: (message: unknown, targetOrigin: string) => void;
+}
+
+/**
+ * Posts each batch as `{ source: 'resig-devtools', events }`, e.g. to
+ * `window` for a browser extension's content script
+ */
+export const postMessageTransport = (
+  target: MessageTarget,
+  targetOrigin = '*',
+): DevtoolsTransport => ({
+  send: (events) =>
+    target.postMessage(
+      { source: DEVTOOLS_MESSAGE_SOURCE, events: toPlain(events) },
+      targetOrigin,
+    ),
+});
+
+/**
+ * The parts of a `WebSocket` the transport relies on
+ */
+export interface SocketLike {
+  readonly readyState: number;
+  readonly send: (data: string) => void;
+  readonly close: () => void;
+  readonly addEventListener: (type: 'open', listener: () => void) => void;
+}
+
+const OPEN = 1;
+
+/**
+ * Sends each batch as a JSON array; events sent while the socket is still
+ * connecting wait for it to open
+ */
+export const websocketTransport = (socket: SocketLike): DevtoolsTransport => {
+  let queued: DevtoolsEvent[] = [];
+  const sendQueued = () => {
+    if (queued.length > 0) {
+      socket.send(JSON.stringify(toPlain(queued)));
+      queued = [];
+    }
+  };
+  socket.addEventListener('open', sendQueued);
+
+  return {
+    send: (events) => {
+      queued.push(...events);
+      if (socket.readyState === OPEN) {
+        sendQueued();
+      }
+    },
+    close: () => socket.close(),
+  };
+};
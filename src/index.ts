@@ -6,11 +6,31 @@
 // Core category exports
 export * from './core/signal';
 export * from './core/effect';
+export * from './core/batch';
+export * from './core/combine';
+export * from './core/scope';
+export * from './core/equality';
+export * from './core/error';
+export * from './core/scheduler';
+export * from './core/watch';
+export * from './core/observable';
+export * from './core/interop';
+export * from './core/store';
+export * from './core/collections';
+export * from './core/select';
+export * from './core/ssr';
+export * from './core/inspect';
+
+// The core auto-tracking `computed` takes precedence over the legacy React
+// alias of the same name (use `useComputed` for the hook)
+export { computed } from './core/signal';
 
 // Algebra exports
 export * from './algebras/time';
 export * from './algebras/fetch';
 export * from './algebras/state';
+export * from './algebras/optics';
+export * from './algebras/history';
 
 // React integration
 export * from './react/hooks';
@@ -25,6 +45,7 @@ export {
   transformPlugin,
   validatePlugin,
   persistPlugin,
+  historyPlugin,
   commonPlugins,
 } from './plugins';
 export { compose as composePlugins, apply as applyPlugin } from './plugins';
@@ -33,10 +54,10 @@ export { compose as composePlugins, apply as applyPlugin } from './plugins';
 import { fetch } from './algebras/fetch';
 import { machine } from './algebras/state';
 import { time } from './algebras/time';
+import { batch, transaction } from './core/batch';
 import { effect } from './core/effect';
-import { signal } from './core/signal';
+import { computed, signal } from './core/signal';
 import {
-  computed,
   effect$,
   fetch$,
   machine$,
@@ -62,14 +83,16 @@ import {
 export default {
   // Core constructors
   signal,
+  computed,
   effect,
+  batch,
+  transaction,
   time,
   fetch,
   machine,
 
   // React hooks (NO dependency arrays!)
   use,
-  computed,
   effect$,
   time$,
   fetch$,
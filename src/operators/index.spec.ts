@@ -0,0 +1,115 @@
+import { createScope } from '../core/scope';
+import { signal } from '../core/signal';
+
+import {
+  distinctUntilChanged,
+  pairwise,
+  pipe,
+  scan,
+  skip,
+  startWith,
+  take,
+} from '.';
+
+describe('operators', () => {
+  test('scan accumulates changes', () => {
+    const clicks = signal(1);
+    const total = pipe(
+      clicks,
+      scan((sum, n: number) => sum + n, 0),
+    );
+
+    clicks.set(2);
+    clicks.set(3);
+
+    expect(total.value()).toBe(6);
+  });
+
+  test('distinctUntilChanged drops equal values', () => {
+    const point = signal({ x: 1 });
+    const distinct = pipe(
+      point,
+      distinctUntilChanged((a, b) => a.x === b.x),
+    );
+    const seen = jest.fn();
+    distinct.subscribe(seen);
+
+    point.set({ x: 1 });
+    point.set({ x: 2 });
+
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveBeenCalledWith({ x: 2 });
+  });
+
+  test('pairwise emits previous and current values', () => {
+    const count = signal(1);
+    const pairs = pipe(count, pairwise());
+
+    expect(pairs.value()).toEqual([undefined, 1]);
+    count.set(2);
+    count.set(3);
+    expect(pairs.value()).toEqual([2, 3]);
+  });
+
+  test('skip and take count changes', () => {
+    const count = signal(0);
+    const seen: number[] = [];
+    pipe(count, skip(1), take(2)).subscribe((value) => seen.push(value));
+
+    [1, 2, 3, 4].forEach(count.set);
+
+    expect(seen).toEqual([2, 3]);
+  });
+
+  test('take completes once done', () => {
+    const count = signal(0);
+    const first = pipe(count, take(1));
+
+    count.set(1);
+    count.set(2);
+
+    expect(first.value()).toBe(1);
+    expect(first.isClosed()).toBe(true);
+  });
+
+  test('completion propagates through a chain', () => {
+    const count = signal(0);
+    const complete = jest.fn();
+    pipe(count, skip(1), pairwise()).subscribe(
+      () => undefined,
+      undefined,
+      complete,
+    );
+
+    count.complete();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  test('startWith replaces the initial value', () => {
+    const status = signal('idle');
+    const labelled = pipe(status, startWith<string, null>(null));
+
+    expect(labelled.value()).toBeNull();
+    status.set('busy');
+    expect(labelled.value()).toBe('busy');
+  });
+
+  test('operators chain and dispose with their scope', () => {
+    const count = signal(1);
+    const scope = createScope();
+    const pairs = scope.run(() =>
+      pipe(
+        count,
+        scan((sum, n: number) => sum + n, 0),
+        pairwise(),
+      ),
+    );
+
+    count.set(2);
+    scope.dispose();
+    count.set(3);
+
+    expect(pairs.value()).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Stream Operators - pipeable transformations over signal changes
+ * A signal's current value is its state; operators react to its changes.
+ * Every result is disposable and releases its source when disposed or once
+ * it completes: with its source, or early for finite operators such as `take`
+ */
+
+import { Equals, strictEqual } from '../core/equality';
+import { fail, nodeOf } from '../core/graph';
+import { withCleanup } from '../core/scope';
+import {
+  computed,
+  ownedReadonly,
+  ReadonlySignal,
+  Signal,
+  signal,
+  SignalOptions,
+  WritableSignal,
+} from '../core/signal';
+
+export type Operator<A, B> = (source: ReadonlySignal<A>) => Signal<B>;
+
+/**
+ * Threads a signal through operators, left to right
+ */
+export function pipe<A>(source: ReadonlySignal<A>): ReadonlySignal<A>;
+export function pipe<A, B>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+): Signal<B>;
+export function pipe<A, B, C>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+  op2: Operator<B, C>,
+): Signal<C>;
+export function pipe<A, B, C, D>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+  op2: Operator<B, C>,
+  op3: Operator<C, D>,
+): Signal<D>;
+export function pipe<A, B, C, D, E>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+  op2: Operator<B, C>,
+  op3: Operator<C, D>,
+  op4: Operator<D, E>,
+): Signal<E>;
+export function pipe<A, B, C, D, E, F>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+  op2: Operator<B, C>,
+  op3: Operator<C, D>,
+  op4: Operator<D, E>,
+  op5: Operator<E, F>,
+): Signal<F>;
+export function pipe<A, B, C, D, E, F, G>(
+  source: ReadonlySignal<A>,
+  op1: Operator<A, B>,
+  op2: Operator<B, C>,
+  op3: Operator<C, D>,
+  op4: Operator<D, E>,
+  op5: Operator<E, F>,
+  op6: Operator<F, G>,
+): Signal<G>;
+export function pipe(
+  source: ReadonlySignal<unknown>,
+  ...operators: Operator<unknown, unknown>[]
+): ReadonlySignal<unknown>;
+export function pipe(
+  source: ReadonlySignal<unknown>,
+  ...operators: Operator<unknown, unknown>[]
+): ReadonlySignal<unknown> {
+  return operators.reduce<ReadonlySignal<unknown>>(
+    (acc, op) => op(acc),
+    source,
+  );
+}
+
+// Subscribes `next` to the source's changes and writes through `result`;
+// `complete` releases the source early, source errors fail the result and
+// source completion completes it
+const operate = <A, B>(
+  source: ReadonlySignal<A>,
+  initial: B,
+  next: (value: A, result: WritableSignal<B>, complete: () => void) => void,
+  options?: SignalOptions<B>,
+): Signal<B> => {
+  const result = signal(initial, options);
+  const complete = () => {
+    unsubscribe();
+    result.complete();
+  };
+  const unsubscribe = source.subscribe(
+    (value) => next(value, result, complete),
+    (error) => fail(nodeOf(result.value)!, error),
+    result.complete,
+  );
+  return withCleanup(ownedReadonly(result), unsubscribe);
+};
+
+/**
+ * Accumulates every change into a running value, starting from
+ * `reducer(seed, current)`
+ */
+export const scan =
+  <A, B>(
+    reducer: (accumulated: B, value: A) => B,
+    seed: B,
+    options?: SignalOptions<B>,
+  ): Operator<A, B> =>
+  (source) =>
+    operate(
+      source,
+      reducer(seed, source.peek()),
+      (value, result) => result.update((acc) => reducer(acc, value)),
+      options,
+    );
+
+/**
+ * Drops changes equal to the current value under `equals`
+ */
+export const distinctUntilChanged =
+  <A>(equals: Equals<A> = strictEqual): Operator<A, A> =>
+  (source) =>
+    computed(() => source.value(), { equals });
+
+/**
+ * Emits `[previous, current]` on every change; `previous` starts undefined
+ */
+export const pairwise =
+  <A>(): Operator<A, [A | undefined, A]> =>
+  (source) =>
+    operate<A, [A | undefined, A]>(
+      source,
+      [undefined, source.peek()],
+      (value, result) => result.update(([, previous]) => [previous, value]),
+    );
+
+/**
+ * Ignores the first `count` changes
+ */
+export const skip =
+  <A>(count: number): Operator<A, A> =>
+  (source) => {
+    let skipped = 0;
+    return operate(source, source.peek(), (value, result) => {
+      if (skipped < count) {
+        skipped++;
+      } else {
+        result.set(value);
+      }
+    });
+  };
+
+/**
+ * Follows the first `count` changes, then completes with the last value
+ */
+export const take =
+  <A>(count: number): Operator<A, A> =>
+  (source) => {
+    if (count <= 0) {
+      const done = signal(source.peek());
+      done.complete();
+      return ownedReadonly(done);
+    }
+
+    let taken = 0;
+    return operate(source, source.peek(), (value, result, complete) => {
+      taken++;
+      result.set(value);
+      if (taken >= count) {
+        complete();
+      }
+    });
+  };
+
+/**
+ * Starts from `initial` instead of the source's current value
+ */
+export const startWith =
+  <A, B = A>(initial: B): Operator<A, A | B> =>
+  (source) =>
+    operate<A, A | B>(source, initial, (value, result) => result.set(value));
@@ -3,28 +3,48 @@
  * Each plugin is a category functor that rewrites the AST lazily
  */
 
+import { AsyncState } from '../algebras/fetch';
+import { history, History, HistoryOptions } from '../algebras/history';
 import { debounce, throttle } from '../algebras/time';
 import { Effect } from '../core/effect';
-import { Signal } from '../core/signal';
+import { onDispose } from '../core/scope';
+import {
+  signal as createSignal,
+  isWritable,
+  ReadonlySignal,
+  Signal,
+  SignalOptions,
+} from '../core/signal';
 
-export type Plugin<A> = (signal: Signal<A>) => Signal<A>;
+/**
+ * Enhances a signal; plugins deriving another kind of value, like
+ * `transformPlugin`, change `A` into `B`
+ */
+export type Plugin<A, B = A> = (
+  signal: ReadonlySignal<A>,
+) => ReadonlySignal<B>;
+
+export interface ValidatedValue<A> {
+  readonly value: A;
+  readonly isValid: boolean;
+}
 
 /**
  * Debounce plugin - delays signal updates
  */
 export const debouncePlugin =
-  <A>(ms: number): Plugin<A> =>
-  (signal: Signal<A>) => {
-    return debounce(ms, signal as Effect<A>);
+  <A>(ms: number, options?: SignalOptions<A>): Plugin<A> =>
+  (signal: ReadonlySignal<A>) => {
+    return debounce(ms, signal as Effect<A>, options);
   };
 
 /**
  * Throttle plugin - limits signal update frequency
  */
 export const throttlePlugin =
-  <A>(ms: number): Plugin<A> =>
-  (signal: Signal<A>) => {
-    return throttle(ms, signal as Effect<A>);
+  <A>(ms: number, options?: SignalOptions<A>): Plugin<A> =>
+  (signal: ReadonlySignal<A>) => {
+    return throttle(ms, signal as Effect<A>, options);
   };
 
 /**
@@ -32,7 +52,7 @@ export const throttlePlugin =
  */
 export const cachePlugin =
   <A>(key: string, ttl: number = 300000): Plugin<A> =>
-  (signal: Signal<A>) => {
+  (signal: ReadonlySignal<A>) => {
     // Try to load from cache
     try {
       const cached = localStorage.getItem(`signal_cache_${key}`);
@@ -51,14 +71,14 @@ export const cachePlugin =
     }
 
     // Subscribe to signal changes and cache them
-    signal.subscribe((value) => {
+    onDispose(signal.subscribe((value) => {
       try {
         localStorage.setItem(`signal_cache_${key}`, JSON.stringify(value));
         localStorage.setItem(`signal_cache_time_${key}`, Date.now().toString());
       } catch (e) {
         // Cache write failed, continue without caching
       }
-    });
+    }));
 
     return signal;
   };
@@ -68,10 +88,10 @@ export const cachePlugin =
  */
 export const loggerPlugin =
   <A>(prefix: string = 'Signal'): Plugin<A> =>
-  (signal: Signal<A>) => {
-    signal.subscribe((value) => {
+  (signal: ReadonlySignal<A>) => {
+    onDispose(signal.subscribe((value) => {
       console.log(`${prefix}:`, value);
-    });
+    }));
     return signal;
   };
 
@@ -79,18 +99,27 @@ export const loggerPlugin =
  * Filter plugin - only emits values that pass predicate
  */
 export const filterPlugin =
-  <A>(predicate: (value: A) => boolean): Plugin<A> =>
-  (signal: Signal<A>) => {
-    return signal.map((value) => (predicate(value) ? value : signal.value()));
+  <A>(
+    predicate: (value: A) => boolean,
+    options?: SignalOptions<A>,
+  ): Plugin<A> =>
+  (signal: ReadonlySignal<A>) => {
+    return signal.map(
+      (value) => (predicate(value) ? value : signal.value()),
+      options,
+    );
   };
 
 /**
  * Transform plugin - applies transformation to signal values
  */
 export const transformPlugin =
-  <A, B>(transform: (value: A) => B): Plugin<A> =>
-  (signal: Signal<A>) => {
-    return signal.map(transform) as unknown as Signal<A>;
+  <A, B>(
+    transform: (value: A) => B,
+    options?: SignalOptions<B>,
+  ): Plugin<A, B> =>
+  (signal: ReadonlySignal<A>) => {
+    return signal.map(transform, options);
   };
 
 /**
@@ -101,12 +130,12 @@ export const validatePlugin =
     validator: (value: A) => boolean,
     onError?: (value: A) => void,
   ): Plugin<A> =>
-  (signal: Signal<A>) => {
-    signal.subscribe((value) => {
+  (signal: ReadonlySignal<A>) => {
+    onDispose(signal.subscribe((value) => {
       if (!validator(value)) {
         onError?.(value);
       }
-    });
+    }));
     return signal;
   };
 
@@ -115,7 +144,7 @@ export const validatePlugin =
  */
 export const persistPlugin =
   <A>(key: string): Plugin<A> =>
-  (signal: Signal<A>) => {
+  (signal: ReadonlySignal<A>) => {
     // Load initial state from storage
     try {
       const stored = localStorage.getItem(`persist_${key}`);
@@ -125,13 +154,13 @@ export const persistPlugin =
         const persistedSignal = signal.map(() => parsedValue);
 
         // Subscribe to changes and persist them
-        persistedSignal.subscribe((value) => {
+        onDispose(persistedSignal.subscribe((value) => {
           try {
             localStorage.setItem(`persist_${key}`, JSON.stringify(value));
           } catch (e) {
             // Persist failed, continue without persistence
           }
-        });
+        }));
 
         return persistedSignal;
       }
@@ -140,23 +169,43 @@ export const persistPlugin =
     }
 
     // Subscribe to changes and persist them
-    signal.subscribe((value) => {
+    onDispose(signal.subscribe((value) => {
       try {
         localStorage.setItem(`persist_${key}`, JSON.stringify(value));
       } catch (e) {
         // Persist failed, continue without persistence
       }
-    });
+    }));
 
     return signal;
   };
 
+/**
+ * History plugin - adds undo and redo to a writable signal
+ */
+export const historyPlugin =
+  <A>(options?: HistoryOptions<A>) =>
+  (signal: ReadonlySignal<A>): Signal<A> & History<A> => {
+    if (!isWritable(signal)) {
+      throw new Error('historyPlugin needs a writable signal');
+    }
+    const undoable = history(signal, options);
+    return {
+      ...signal,
+      ...undoable,
+      dispose: () => {
+        undoable.dispose();
+        signal.dispose();
+      },
+    };
+  };
+
 /**
  * Compose multiple plugins
  */
 export const compose =
   <A>(...plugins: Plugin<A>[]): Plugin<A> =>
-  (signal: Signal<A>) => {
+  (signal: ReadonlySignal<A>) => {
     return plugins.reduce((acc, plugin) => plugin(acc), signal);
   };
 
@@ -164,8 +213,8 @@ export const compose =
  * Apply plugin to signal
  */
 export const apply =
-  <A>(plugin: Plugin<A>) =>
-  (signal: Signal<A>): Signal<A> => {
+  <A, B = A>(plugin: Plugin<A, B>) =>
+  (signal: ReadonlySignal<A>): ReadonlySignal<B> => {
     return plugin(signal);
   };
 
@@ -174,7 +223,7 @@ export const apply =
  */
 export const when =
   <A>(condition: boolean, plugin: Plugin<A>): Plugin<A> =>
-  (signal: Signal<A>) => {
+  (signal: ReadonlySignal<A>) => {
     return condition ? plugin(signal) : signal;
   };
 
@@ -187,8 +236,8 @@ export const switchPlugin =
     plugins: Record<string, Plugin<A>>,
     defaultPlugin?: Plugin<A>,
   ): Plugin<A> =>
-  (signal: Signal<A>) => {
-    const currentValue = signal.value();
+  (signal: ReadonlySignal<A>) => {
+    const currentValue = signal.peek();
     const key = selector(currentValue);
     const selectedPlugin = plugins[key] || defaultPlugin;
 
@@ -201,38 +250,38 @@ export const switchPlugin =
 export const asyncPlugin = <A, B>(
   asyncFn: (value: A) => Promise<B>,
   initialValue?: B
-): Plugin<A> => (signal: Signal<A>) => {
-  const asyncSignal = signal.map(() => ({
+): Plugin<A, AsyncState<B>> => (signal: ReadonlySignal<A>) => {
+  const asyncSignal = createSignal<AsyncState<B>>({
     data: initialValue,
     loading: false,
-    error: undefined as Error | undefined
-  }));
+    error: undefined
+  });
 
-  signal.subscribe(async (value) => {
+  onDispose(signal.subscribe(async (value) => {
     // Set loading state
-    (asyncSignal as any)._set({
-      data: (asyncSignal as any).value().data,
+    asyncSignal.set({
+      data: asyncSignal.value().data,
       loading: true,
       error: undefined
     });
 
     try {
       const result = await asyncFn(value);
-      (asyncSignal as any)._set({
+      asyncSignal.set({
         data: result,
         loading: false,
         error: undefined
       });
     } catch (error) {
-      (asyncSignal as any)._set({
-        data: (asyncSignal as any).value().data,
+      asyncSignal.set({
+        data: asyncSignal.value().data,
         loading: false,
         error: error instanceof Error ? error : new Error(String(error))
       });
     }
-  });
+  }));
 
-  return asyncSignal as any;
+  return asyncSignal.asReadonly();
 };
 
 /**
@@ -241,17 +290,17 @@ export const asyncPlugin = <A, B>(
 export const validationPlugin = <A>(
   validator: (value: A) => boolean,
   onValidChange?: (isValid: boolean) => void
-): Plugin<A> => (signal: Signal<A>) => {
-  const validatedSignal = signal.map((value) => ({
+): Plugin<A, ValidatedValue<A>> => (signal: ReadonlySignal<A>) => {
+  const validatedSignal = signal.map((value): ValidatedValue<A> => ({
     value,
     isValid: validator(value)
   }));
 
   if (onValidChange) {
-    validatedSignal.subscribe(({ isValid }) => onValidChange(isValid));
+    onDispose(validatedSignal.subscribe(({ isValid }) => onValidChange(isValid)));
   }
 
-  return validatedSignal as any;
+  return validatedSignal;
 };
 
 /**
@@ -259,17 +308,18 @@ export const validationPlugin = <A>(
  */
 export const stateMachinePlugin = <S, A>(
   initialState: S,
-  reducer: (state: S, action: A) => S
-): Plugin<A> => (actionSignal: Signal<A>) => {
+  reducer: (state: S, action: A) => S,
+  options?: SignalOptions<S>
+): Plugin<A, S> => (actionSignal: ReadonlySignal<A>) => {
   let currentState = initialState;
-  const stateSignal = actionSignal.map(() => currentState);
+  const stateSignal = createSignal(currentState, options);
 
-  actionSignal.subscribe((action) => {
+  onDispose(actionSignal.subscribe((action) => {
     currentState = reducer(currentState, action);
-    (stateSignal as any)._set(currentState);
-  });
+    stateSignal.set(currentState);
+  }));
 
-  return stateSignal as any;
+  return stateSignal.asReadonly();
 };
 
 /**
@@ -282,14 +332,14 @@ export const fetchPlugin = <T>(
     cacheKey?: string;
     cacheTtl?: number;
   } = {}
-): Plugin<any> => (triggerSignal: Signal<any>) => {
+): Plugin<unknown, AsyncState<T>> => (triggerSignal: ReadonlySignal<unknown>) => {
   const { retries = 0, cacheKey, cacheTtl = 300000 } = options;
 
-  const fetchSignal = triggerSignal.map(() => ({
-    data: undefined as T | undefined,
+  const fetchSignal = createSignal<AsyncState<T>>({
+    data: undefined,
     loading: false,
-    error: undefined as Error | undefined
-  }));
+    error: undefined
+  });
 
   const performFetch = async (attempt = 0): Promise<void> => {
     // Check cache first
@@ -301,7 +351,7 @@ export const fetchPlugin = <T>(
         if (cached && cacheTime) {
           const age = Date.now() - parseInt(cacheTime);
           if (age < cacheTtl) {
-            (fetchSignal as any)._set({
+            fetchSignal.set({
               data: JSON.parse(cached),
               loading: false,
               error: undefined
@@ -314,8 +364,8 @@ export const fetchPlugin = <T>(
       }
     }
 
-    (fetchSignal as any)._set({
-      data: (fetchSignal as any).value().data,
+    fetchSignal.set({
+      data: fetchSignal.value().data,
       loading: true,
       error: undefined
     });
@@ -333,7 +383,7 @@ export const fetchPlugin = <T>(
         }
       }
 
-      (fetchSignal as any)._set({
+      fetchSignal.set({
         data: result,
         loading: false,
         error: undefined
@@ -343,8 +393,8 @@ export const fetchPlugin = <T>(
         // Retry after delay
         setTimeout(() => performFetch(attempt + 1), 1000 * Math.pow(2, attempt));
       } else {
-        (fetchSignal as any)._set({
-          data: (fetchSignal as any).value().data,
+        fetchSignal.set({
+          data: fetchSignal.value().data,
           loading: false,
           error: error instanceof Error ? error : new Error(String(error))
         });
@@ -352,9 +402,9 @@ export const fetchPlugin = <T>(
     }
   };
 
-  triggerSignal.subscribe(() => performFetch());
+  onDispose(triggerSignal.subscribe(() => performFetch()));
 
-  return fetchSignal as any;
+  return fetchSignal.asReadonly();
 };
 
 /**
@@ -403,12 +453,11 @@ export const commonPlugins = {
     key: string,
     validator: (value: A) => boolean,
     debounceMs: number = 300
-  ): Plugin<A> =>
-    compose(
-      debouncePlugin(debounceMs),
-      validationPlugin(validator),
-      persistPlugin(key)
-    ),
+  ): Plugin<A, ValidatedValue<A>> =>
+    (signal) =>
+      persistPlugin<ValidatedValue<A>>(key)(
+        validationPlugin(validator)(debouncePlugin<A>(debounceMs)(signal))
+      ),
 
   /**
    * API data plugin - combines fetch, caching, and error handling
@@ -417,11 +466,11 @@ export const commonPlugins = {
     fetcher: () => Promise<T>,
     cacheKey: string,
     retries: number = 3
-  ): Plugin<any> =>
-    compose(
-      fetchPlugin(fetcher, { retries, cacheKey }),
-      loggerPlugin(`API[${cacheKey}]`)
-    ),
+  ): Plugin<unknown, AsyncState<T>> =>
+    (trigger) =>
+      loggerPlugin<AsyncState<T>>(`API[${cacheKey}]`)(
+        fetchPlugin(fetcher, { retries, cacheKey })(trigger)
+      ),
 
   /**
    * Real-time data plugin - combines debouncing and logging for live updates
@@ -3,13 +3,24 @@
  * Uses useSignal and useStore for Qwik reactivity
  */
 
-import { useSignal as qwikUseSignal, useStore, useTask$, useVisibleTask$ } from '@builder.io/qwik';
+import { useSignal as qwikUseSignal, useStore as qwikUseStore, useTask$, useVisibleTask$ } from '@builder.io/qwik';
+import { isBrowser } from '@builder.io/qwik/build';
 
 import { Fetch, fetch } from '../algebras/fetch';
 import { machine, StateMachine } from '../algebras/state';
 import { time } from '../algebras/time';
 import { Effect, effect } from '../core/effect';
+import { createScope, Scope } from '../core/scope';
 import { Signal, signal } from '../core/signal';
+import { hydrate, snapshot, SnapshotDocument } from '../core/ssr';
+import { SetStore, Store, store, storeVersion } from '../core/store';
+
+// Qwik ownership scope - disposed by useVisibleTask$ cleanup
+export function useScope(): Scope {
+  const scope = createScope();
+  useVisibleTask$(() => scope.dispose);
+  return scope;
+}
 
 // Qwik Signal adapter - uses Qwik's useSignal
 export function useSignal<T>(initialValue: T): [() => T, (value: T) => void] {
@@ -39,7 +50,7 @@ export function useEffect<T>(
   // Sync Qwik signal with Signal-Σ effect
   useTask$(({ track }) => {
     track(() => state.value);
-    effectInstance._set(state.value);
+    effectInstance.set(state.value);
   });
   
   const getValue = () => state.value;
@@ -268,6 +279,47 @@ export function useValidatedSignal<T>(
   return [getValue, setValue, getIsValid];
 }
 
+// Qwik Store adapter - uses a Qwik signal bumped after every update made
+// through the setter
+export function useStore<T extends object>(
+  initialValue: T,
+): [() => Store<T>, SetStore<T>] {
+  const [state, setStore] = store(initialValue);
+  const version = qwikUseSignal(0);
+  useVisibleTask$(() =>
+    storeVersion(state).subscribe((count) => {
+      version.value = count;
+    }),
+  );
+
+  const getState = () => {
+    void version.value;
+    return state;
+  };
+
+  return [getState, setStore];
+}
+
+// Documents already hydrated: a component re-rendering on the client must
+// not reset its signals to the server's values
+const hydratedDocs = new WeakSet<SnapshotDocument>();
+
+// Qwik SSR adapter - the snapshot taken while rendering on the server is
+// serialized with Qwik's state, and hydrates the registry as soon as the
+// component resumes, so call it in the root component: named signals and
+// fetches its children create are seeded on creation
+export function useSnapshot(): void {
+  const doc = qwikUseStore<SnapshotDocument>(snapshot());
+  if (isBrowser && !hydratedDocs.has(doc)) {
+    hydratedDocs.add(doc);
+    hydrate(doc);
+  }
+}
+
+// Dependency control from the core: read without tracking, or track only
+// explicitly named signals
+export { on, untrack } from '../core/signal';
+
 // Export all hooks for easy importing
 export {
   useSignal as signal,
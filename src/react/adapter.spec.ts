@@ -0,0 +1,43 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, createElement, StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+
+import { loggerPlugin, useSignal } from './adapter';
+
+declare const globalThis: { IS_REACT_ACT_ENVIRONMENT?: boolean };
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+// Renders `hook` under StrictMode, which unmounts and remounts every
+// component once in development
+const renderStrict = <R>(hook: () => R) => {
+  const result: { current?: R } = {};
+  const Probe = () => {
+    result.current = hook();
+    return null;
+  };
+  const root = createRoot(document.createElement('div'));
+  act(() => root.render(createElement(StrictMode, null, createElement(Probe))));
+  return { result, unmount: () => act(() => root.unmount()) };
+};
+
+describe('react adapter under StrictMode', () => {
+  test('plugin subscriptions outlive the simulated remount', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { result, unmount } = renderStrict(() =>
+      useSignal(0, loggerPlugin('count')),
+    );
+
+    act(() => result.current![1](1));
+    expect(result.current![0]).toBe(1);
+    expect(log.mock.calls).toEqual([['count:', 1]]);
+
+    const [, set] = result.current!;
+    unmount();
+    set(2);
+    expect(log).toHaveBeenCalledTimes(1);
+    log.mockRestore();
+  });
+});
@@ -3,15 +3,30 @@
  * Integrates Signal-Σ plugins with React's reactivity system
  */
 
-import { useRef, useSyncExternalStore, useCallback } from 'react';
-import { Signal, signal } from '../core/signal';
-import { FrameworkAdapter } from '../adapters/universal';
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+
+import {
+  AdaptedSignal,
+  bridgeSignal,
+  FrameworkAdapter,
+  usePluginAsyncSignal,
+  usePluginComputed,
+  usePluginDebouncedSignal,
+  usePluginMachine,
+  usePluginPersistentSignal,
+  usePluginSignal,
+  usePluginValidatedSignal,
+} from '../adapters/universal';
+import { AsyncState } from '../algebras/fetch';
+import { isWritable, ReadonlySignal, signal, WritableSignal } from '../core/signal';
 import { Plugin } from '../plugins';
 
+import { useScope } from './hooks';
+
 // React-specific framework adapter implementation
-export const reactAdapter: FrameworkAdapter<any> = {
+export const reactAdapter: FrameworkAdapter = {
   createSignal<T>(initialValue: T): [() => T, (value: T) => void] {
-    const sigRef = useRef<Signal<T> & { _set: (value: T) => void }>();
+    const sigRef = useRef<WritableSignal<T>>();
     if (!sigRef.current) {
       sigRef.current = signal(initialValue);
     }
@@ -22,7 +37,7 @@ export const reactAdapter: FrameworkAdapter<any> = {
     );
 
     const setValue = useCallback((newValue: T) => {
-      sigRef.current!._set(newValue);
+      sigRef.current!.set(newValue);
     }, []);
 
     return [() => value, setValue];
@@ -43,41 +58,32 @@ export const reactAdapter: FrameworkAdapter<any> = {
     useRef(cleanup);
   },
 
-  adaptSignal<T>(signal: Signal<T>): [() => T, (value: T) => void] {
+  adaptSignal<S extends ReadonlySignal<unknown>>(signal: S): AdaptedSignal<S> {
     const value = useSyncExternalStore(
       signal.subscribe,
       signal.value,
     );
 
-    const setValue = useCallback((newValue: T) => {
-      (signal as any)._set(newValue);
+    const setValue = useCallback((newValue: unknown) => {
+      if (isWritable(signal)) {
+        signal.set(newValue);
+      }
     }, [signal]);
 
-    return [() => value, setValue];
+    // Read-only (derived) signals expose no setter
+    const getValue = () => value;
+    return (isWritable(signal) ? [getValue, setValue] : [getValue]) as AdaptedSignal<S>;
   },
 
-  toSignal<T>(getValue: () => T, setValue: (value: T) => void): Signal<T> {
-    const sig = signal(getValue());
-    
-    // Override the _set method to use the provided setValue
-    (sig as any)._set = setValue;
-    
-    return sig;
+  toSignal<T>(getValue: () => T, setValue: (value: T) => void): WritableSignal<T> {
+    return bridgeSignal(getValue, setValue);
   },
+
+  // Kept across re-renders; StrictMode's simulated remount gets a new one
+  useScope,
 };
 
 // Plugin-enhanced React hooks using the universal adapter system
-import {
-  usePluginSignal,
-  usePluginComputed,
-  usePluginAsyncSignal,
-  usePluginPersistentSignal,
-  usePluginDebouncedSignal,
-  usePluginValidatedSignal,
-  usePluginMachine,
-} from '../adapters/universal';
-
-// React hooks with plugin support
 export const useSignal = <T>(
   initialValue: T,
   ...plugins: Plugin<T>[]
@@ -97,8 +103,8 @@ export const useComputed = <T>(
 export const useAsyncSignal = <T>(
   asyncFn: () => Promise<T>,
   initialValue?: T,
-  ...plugins: Plugin<any>[]
-): [{ data?: T; loading: boolean; error?: Error }, () => void, (value: T) => void] => {
+  ...plugins: Plugin<AsyncState<T>>[]
+): [AsyncState<T>, () => void, (value: T) => void] => {
   const [getState, refetch, setValue] = usePluginAsyncSignal(
     reactAdapter,
     asyncFn,
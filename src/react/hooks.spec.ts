@@ -0,0 +1,54 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, createElement, StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+
+import { Scope } from '../core/scope';
+import { clearRegistry, snapshot } from '../core/ssr';
+
+import { useNamedSignal, useScope } from './hooks';
+
+declare const globalThis: { IS_REACT_ACT_ENVIRONMENT?: boolean };
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+// Renders `hook` under StrictMode, which unmounts and remounts every
+// component once in development
+const renderStrict = <R>(hook: () => R) => {
+  const result: { current?: R } = {};
+  const Probe = () => {
+    result.current = hook();
+    return null;
+  };
+  const root = createRoot(document.createElement('div'));
+  act(() => root.render(createElement(StrictMode, null, createElement(Probe))));
+  return { result, unmount: () => act(() => root.unmount()) };
+};
+
+describe('react hooks under StrictMode', () => {
+  afterEach(clearRegistry);
+
+  test('useScope stays usable after the simulated remount', () => {
+    const { result, unmount } = renderStrict(useScope);
+    const cleanup = jest.fn();
+
+    (result.current as Scope).onDispose(cleanup);
+    expect(cleanup).not.toHaveBeenCalled();
+
+    unmount();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  test('useNamedSignal stays registered for snapshots', () => {
+    const { result, unmount } = renderStrict(() => useNamedSignal('count', 1));
+    expect(snapshot().values).toEqual({ count: 1 });
+
+    act(() => result.current![1](2));
+    expect(result.current![0]).toBe(2);
+    expect(snapshot().values).toEqual({ count: 2 });
+
+    unmount();
+    expect(snapshot().values).toEqual({});
+  });
+});
@@ -3,17 +3,59 @@
  * All hooks use useSyncExternalStore for automatic re-renders
  */
 
-import { useRef, useSyncExternalStore } from 'react';
-
-import { Fetch, fetch } from '../algebras/fetch';
+import {
+  useEffect as useReactEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+
+import { AsyncState, Fetch, fetch } from '../algebras/fetch';
 import { machine, StateMachine } from '../algebras/state';
 import { time } from '../algebras/time';
 import { Effect, effect } from '../core/effect';
-import { Signal, signal } from '../core/signal';
+import { createScope, Scope } from '../core/scope';
+import { signal, WritableSignal } from '../core/signal';
+import { named, serverValue } from '../core/ssr';
+import { SetStore, Store, store, storeVersion } from '../core/store';
+
+// Hook for ownership scopes - everything created through `scope.run` is
+// disposed when the component unmounts
+// A remount (StrictMode, offscreen) gets a fresh scope and re-renders, so
+// what the disposed one owned is created again
+export function useScope(): Scope {
+  const scopeRef = useRef<Scope>();
+  const [, rerender] = useState(0);
+  if (!scopeRef.current) {
+    scopeRef.current = createScope();
+  }
+
+  useReactEffect(() => {
+    if (!scopeRef.current) {
+      scopeRef.current = createScope();
+      rerender((n) => n + 1);
+    }
+    const scope = scopeRef.current;
+    return () => {
+      scopeRef.current = undefined;
+      scope.dispose();
+    };
+  }, []);
+  return scopeRef.current;
+}
+
+// Creates a value in `scope` once, and again for each new scope
+function useOwned<R>(scope: Scope, create: () => R): R {
+  const ownedRef = useRef<{ scope: Scope; value: R }>();
+  if (ownedRef.current?.scope !== scope) {
+    ownedRef.current = { scope, value: scope.run(create) };
+  }
+  return ownedRef.current.value;
+}
 
 // Hook for basic signals - replaces useState completely
 export function useSignal<T>(initialValue: T): [T, (value: T) => void] {
-  const sigRef = useRef<Signal<T> & { _set: (value: T) => void }>();
+  const sigRef = useRef<WritableSignal<T>>();
   if (!sigRef.current) {
     sigRef.current = signal(initialValue);
   }
@@ -22,7 +64,22 @@ export function useSignal<T>(initialValue: T): [T, (value: T) => void] {
     sigRef.current.subscribe,
     sigRef.current.value,
   );
-  return [value, sigRef.current._set];
+  return [value, sigRef.current.set];
+}
+
+// Hook for signals shared with the server - registered under `name` for
+// SSR snapshots; hydration renders with the value the server rendered
+export function useNamedSignal<T>(
+  name: string,
+  initialValue: T,
+): [T, (value: T) => void] {
+  const scope = useScope();
+  const sig = useOwned(scope, () => named(name, signal(initialValue)));
+
+  const value = useSyncExternalStore(sig.subscribe, sig.value, () =>
+    serverValue(name, sig.value),
+  );
+  return [value, sig.set];
 }
 
 // Hook for computed signals - NO dependency arrays!
@@ -35,7 +92,7 @@ export function useComputed<T>(compute: () => T): T {
 export function useEffect<T>(
   initialValue: T,
 ): [T, (value: T) => void, Effect<T>] {
-  const effRef = useRef<Effect<T> & { _set: (value: T) => void }>();
+  const effRef = useRef<Effect<T> & WritableSignal<T>>();
   if (!effRef.current) {
     effRef.current = effect(initialValue);
   }
@@ -44,7 +101,7 @@ export function useEffect<T>(
     effRef.current.subscribe,
     effRef.current.value,
   );
-  return [value, effRef.current._set, effRef.current];
+  return [value, effRef.current.set, effRef.current];
 }
 
 // Hook for state machines - replaces complex useState patterns
@@ -67,29 +124,29 @@ export function useMachine<S, A>(
 // Hook for async data fetching - replaces React Query
 export function useFetch<T>(
   fetcher: () => Promise<T>,
+  name?: string,
 ): [
   { data?: T; loading: boolean; error?: Error },
   () => Fetch<T>,
   (n: number) => Fetch<T>,
 ] {
-  const fetchRef = useRef<
-    Fetch<T> & {
-      _set: (value: { data?: T; loading: boolean; error?: Error }) => void;
-    }
-  >();
-  if (!fetchRef.current) {
-    fetchRef.current = fetch(fetcher);
-  }
+  const scope = useScope();
+  const fetched: Fetch<T> & WritableSignal<AsyncState<T>> = useOwned(
+    scope,
+    () => fetch(fetcher, [], { name }),
+  );
 
+  // A named fetch is seeded by hydration, so it renders the server's data
   const state = useSyncExternalStore(
-    fetchRef.current.subscribe,
-    fetchRef.current.value,
+    fetched.subscribe,
+    fetched.value,
+    fetched.value,
   );
 
   return [
     state,
-    () => fetchRef.current!.refetch(),
-    (n: number) => fetchRef.current!.retry(n),
+    () => scope.run(() => fetched.refetch()),
+    (n: number) => scope.run(() => fetched.retry(n)),
   ];
 }
 
@@ -105,10 +162,8 @@ export function useValidatedSignal<T>(
   validator: (value: T) => boolean,
   onError?: (value: T) => void,
 ): [T, (value: T) => void, boolean] {
-  const sigRef = useRef<Signal<T> & { _set: (value: T) => void }>();
-  const isValidRef = useRef<
-    Signal<boolean> & { _set: (value: boolean) => void }
-  >();
+  const sigRef = useRef<WritableSignal<T>>();
+  const isValidRef = useRef<WritableSignal<boolean>>();
 
   if (!sigRef.current) {
     sigRef.current = signal(initialValue);
@@ -120,10 +175,10 @@ export function useValidatedSignal<T>(
   const setValue = (value: T) => {
     const valid = validator(value);
     if (valid) {
-      sigRef.current!._set(value);
-      isValidRef.current!._set(true);
+      sigRef.current!.set(value);
+      isValidRef.current!.set(true);
     } else {
-      isValidRef.current!._set(false);
+      isValidRef.current!.set(false);
       onError?.(value);
     }
   };
@@ -145,8 +200,8 @@ export function useDebouncedSignal<T>(
   initialValue: T,
   delay: number,
 ): [T, (value: T) => void, T] {
-  const immediateRef = useRef<Signal<T> & { _set: (value: T) => void }>();
-  const debouncedRef = useRef<Signal<T> & { _set: (value: T) => void }>();
+  const immediateRef = useRef<WritableSignal<T>>();
+  const debouncedRef = useRef<WritableSignal<T>>();
   const timeoutRef = useRef<NodeJS.Timeout>();
 
   if (!immediateRef.current) {
@@ -157,10 +212,10 @@ export function useDebouncedSignal<T>(
   }
 
   const setValue = (value: T) => {
-    immediateRef.current!._set(value);
+    immediateRef.current!.set(value);
     clearTimeout(timeoutRef.current);
     timeoutRef.current = setTimeout(() => {
-      debouncedRef.current!._set(value);
+      debouncedRef.current!.set(value);
     }, delay);
   };
 
@@ -181,9 +236,8 @@ export function usePersistentSignal<T>(
   key: string,
   initialValue: T,
 ): [T, (value: T) => void] {
-  const sigRef = useRef<Signal<T> & { _set: (value: T) => void }>();
-
-  if (!sigRef.current) {
+  const scope = useScope();
+  const sig = useOwned(scope, () => {
     // Try to load from localStorage
     let storedValue = initialValue;
     try {
@@ -195,23 +249,23 @@ export function usePersistentSignal<T>(
       // Use initial value if parsing fails
     }
 
-    sigRef.current = signal(storedValue);
+    const persisted = signal(storedValue);
 
     // Subscribe to changes and persist them
-    sigRef.current.subscribe(() => {
-      try {
-        localStorage.setItem(key, JSON.stringify(sigRef.current!.value()));
-      } catch (e) {
-        // Ignore storage errors
-      }
-    });
-  }
+    scope.onDispose(
+      persisted.subscribe((value) => {
+        try {
+          localStorage.setItem(key, JSON.stringify(value));
+        } catch (e) {
+          // Ignore storage errors
+        }
+      }),
+    );
+    return persisted;
+  });
 
-  const value = useSyncExternalStore(
-    sigRef.current.subscribe,
-    sigRef.current.value,
-  );
-  return [value, sigRef.current._set];
+  const value = useSyncExternalStore(sig.subscribe, sig.value);
+  return [value, sig.set];
 }
 
 // Hook for async signals - handles Promise-based values
@@ -223,11 +277,8 @@ export function useAsyncSignal<T>(
   () => void, // refetch
   (value: T) => void, // setValue (for optimistic updates)
 ] {
-  const stateRef = useRef<
-    Signal<{ data?: T; loading: boolean; error?: Error }> & {
-      _set: (value: { data?: T; loading: boolean; error?: Error }) => void;
-    }
-  >();
+  const stateRef =
+    useRef<WritableSignal<{ data?: T; loading: boolean; error?: Error }>>();
   const abortControllerRef = useRef<AbortController>();
 
   if (!stateRef.current) {
@@ -245,7 +296,7 @@ export function useAsyncSignal<T>(
     }
 
     abortControllerRef.current = new AbortController();
-    stateRef.current!._set({
+    stateRef.current!.set({
       data: stateRef.current!.value().data,
       loading: true,
       error: undefined,
@@ -254,12 +305,12 @@ export function useAsyncSignal<T>(
     asyncFn()
       .then((data) => {
         if (!abortControllerRef.current?.signal.aborted) {
-          stateRef.current!._set({ data, loading: false, error: undefined });
+          stateRef.current!.set({ data, loading: false, error: undefined });
         }
       })
       .catch((error) => {
         if (!abortControllerRef.current?.signal.aborted) {
-          stateRef.current!._set({
+          stateRef.current!.set({
             data: stateRef.current!.value().data,
             loading: false,
             error: error instanceof Error ? error : new Error(String(error)),
@@ -269,7 +320,7 @@ export function useAsyncSignal<T>(
   };
 
   const setValue = (value: T) => {
-    stateRef.current!._set({ data: value, loading: false, error: undefined });
+    stateRef.current!.set({ data: value, loading: false, error: undefined });
   };
 
   const state = useSyncExternalStore(
@@ -286,11 +337,8 @@ export function useAsyncComputed<T>(
   asyncCompute: () => Promise<T>,
   deps: unknown[] = [],
 ): { data?: T; loading: boolean; error?: Error } {
-  const stateRef = useRef<
-    Signal<{ data?: T; loading: boolean; error?: Error }> & {
-      _set: (value: { data?: T; loading: boolean; error?: Error }) => void;
-    }
-  >();
+  const stateRef =
+    useRef<WritableSignal<{ data?: T; loading: boolean; error?: Error }>>();
   const abortControllerRef = useRef<AbortController>();
   const lastDepsRef = useRef<unknown[]>([]);
   const isInitializedRef = useRef(false);
@@ -322,7 +370,7 @@ export function useAsyncComputed<T>(
 
     // Defer state update to avoid render-time updates
     setTimeout(() => {
-      stateRef.current!._set({
+      stateRef.current!.set({
         data: stateRef.current!.value().data,
         loading: true,
         error: undefined,
@@ -331,12 +379,12 @@ export function useAsyncComputed<T>(
       asyncCompute()
         .then((data) => {
           if (!abortControllerRef.current?.signal.aborted) {
-            stateRef.current!._set({ data, loading: false, error: undefined });
+            stateRef.current!.set({ data, loading: false, error: undefined });
           }
         })
         .catch((error) => {
           if (!abortControllerRef.current?.signal.aborted) {
-            stateRef.current!._set({
+            stateRef.current!.set({
               data: stateRef.current!.value().data,
               loading: false,
               error: error instanceof Error ? error : new Error(String(error)),
@@ -358,14 +406,9 @@ export function useAsyncComputed<T>(
 export function useAsyncComputedSignal<T>(
   asyncCompute: () => Promise<T>,
   deps: unknown[] = [],
-): Signal<{ data?: T; loading: boolean; error?: Error }> & {
-  _set: (value: { data?: T; loading: boolean; error?: Error }) => void;
-} {
-  const stateRef = useRef<
-    Signal<{ data?: T; loading: boolean; error?: Error }> & {
-      _set: (value: { data?: T; loading: boolean; error?: Error }) => void;
-    }
-  >();
+): WritableSignal<{ data?: T; loading: boolean; error?: Error }> {
+  const stateRef =
+    useRef<WritableSignal<{ data?: T; loading: boolean; error?: Error }>>();
   const abortControllerRef = useRef<AbortController>();
   const lastDepsRef = useRef<unknown[]>([]);
   const isInitializedRef = useRef(false);
@@ -397,7 +440,7 @@ export function useAsyncComputedSignal<T>(
 
     // Defer state update to avoid render-time updates
     setTimeout(() => {
-      stateRef.current!._set({
+      stateRef.current!.set({
         data: stateRef.current!.value().data,
         loading: true,
         error: undefined,
@@ -406,12 +449,12 @@ export function useAsyncComputedSignal<T>(
       asyncCompute()
         .then((data) => {
           if (!abortControllerRef.current?.signal.aborted) {
-            stateRef.current!._set({ data, loading: false, error: undefined });
+            stateRef.current!.set({ data, loading: false, error: undefined });
           }
         })
         .catch((error) => {
           if (!abortControllerRef.current?.signal.aborted) {
-            stateRef.current!._set({
+            stateRef.current!.set({
               data: stateRef.current!.value().data,
               loading: false,
               error: error instanceof Error ? error : new Error(String(error)),
@@ -424,6 +467,25 @@ export function useAsyncComputedSignal<T>(
   return stateRef.current;
 }
 
+// Hook for deep stores - re-renders after every update made through the
+// setter, while computeds keep tracking single paths
+export function useStore<T extends object>(
+  initialValue: T,
+): [Store<T>, SetStore<T>] {
+  const storeRef = useRef<[Store<T>, SetStore<T>]>();
+  if (!storeRef.current) {
+    storeRef.current = store(initialValue);
+  }
+
+  const version = storeVersion(storeRef.current[0]);
+  useSyncExternalStore(version.subscribe, version.value);
+  return storeRef.current;
+}
+
+// Dependency control from the core: read without tracking, or track only
+// explicitly named signals
+export { on, untrack } from '../core/signal';
+
 // Legacy aliases for backward compatibility
 export const use = useSignal;
 export const computed = useComputed;
@@ -9,7 +9,16 @@ import { Fetch, fetch } from '../algebras/fetch';
 import { machine, StateMachine } from '../algebras/state';
 import { time } from '../algebras/time';
 import { Effect, effect } from '../core/effect';
+import { createScope, Scope } from '../core/scope';
 import { Signal, signal } from '../core/signal';
+import { SetStore, Store, store, storeVersion } from '../core/store';
+
+// SolidJS ownership scope - disposed with the owning component
+export function useScope(): Scope {
+  const scope = createScope();
+  onCleanup(scope.dispose);
+  return scope;
+}
 
 // SolidJS Signal adapter - uses native SolidJS reactivity
 export function useSignal<T>(initialValue: T): [() => T, (value: T) => void] {
@@ -31,7 +40,7 @@ export function useEffect<T>(
   
   // Sync SolidJS signal with Signal-Σ effect
   createEffect(() => {
-    effectInstance._set(value());
+    effectInstance.set(value());
   });
   
   return [value, setValue, effectInstance];
@@ -210,6 +219,28 @@ export function useValidatedSignal<T>(
   return [value, setValue, isValid];
 }
 
+// SolidJS Store adapter - the accessor re-runs after every update made
+// through the setter
+export function useStore<T extends object>(
+  initialValue: T,
+): [() => Store<T>, SetStore<T>] {
+  const [state, setStore] = store(initialValue);
+  const [version, setVersion] = createSignal(0);
+  onCleanup(storeVersion(state).subscribe(setVersion));
+
+  return [
+    () => {
+      version();
+      return state;
+    },
+    setStore,
+  ];
+}
+
+// Dependency control from the core: read without tracking, or track only
+// explicitly named signals
+export { on, untrack } from '../core/signal';
+
 // Export all hooks for easy importing
 export {
   useSignal as signal,
@@ -4,12 +4,18 @@
  * Note: This is a TypeScript-compatible version. Actual Svelte usage would use runes.
  */
 
-import { Signal, signal } from '../core/signal';
-import { FrameworkAdapter } from '../adapters/universal';
+import { AsyncState } from '../algebras/fetch';
+import { createScope, Scope } from '../core/scope';
+import { isWritable, ReadonlySignal, WritableSignal } from '../core/signal';
+import {
+  AdaptedSignal,
+  bridgeSignal,
+  FrameworkAdapter,
+} from '../adapters/universal';
 import { Plugin } from '../plugins';
 
 // Svelte 5 framework adapter implementation using runes
-export const svelteAdapter: FrameworkAdapter<any> = {
+export const svelteAdapter: FrameworkAdapter = {
   createSignal<T>(initialValue: T): [() => T, (value: T) => void] {
     // Use Svelte 5 $state rune
     let state = $state(initialValue);
@@ -36,7 +42,7 @@ export const svelteAdapter: FrameworkAdapter<any> = {
     });
   },
 
-  adaptSignal<T>(signal: Signal<T>): [() => T, (value: T) => void] {
+  adaptSignal<S extends ReadonlySignal<unknown>>(signal: S): AdaptedSignal<S> {
     // Use Svelte 5 $state to create reactive state
     let state = $state(signal.value());
 
@@ -48,27 +54,28 @@ export const svelteAdapter: FrameworkAdapter<any> = {
       return unsubscribe;
     });
 
+    // Read-only (derived) signals expose no setter
     const getValue = () => state;
-    const setValue = (value: T) => {
-      (signal as any)._set(value);
+    if (!isWritable(signal)) {
+      return [getValue] as AdaptedSignal<S>;
+    }
+
+    const setValue = (value: unknown) => {
+      signal.set(value);
     };
 
-    return [getValue, setValue];
+    return [getValue, setValue] as AdaptedSignal<S>;
   },
 
-  toSignal<T>(getValue: () => T, setValue: (value: T) => void): Signal<T> {
-    const sig = signal(getValue());
-    
-    // Override the _set method to use the provided setValue
-    (sig as any)._set = (value: T) => {
-      setValue(value);
-      // Also update the internal signal
-      (sig as any)._value = value;
-      // Notify subscribers
-      (sig as any)._subscribers.forEach((fn: any) => fn(value));
-    };
-    
-    return sig;
+  toSignal<T>(getValue: () => T, setValue: (value: T) => void): WritableSignal<T> {
+    return bridgeSignal(getValue, setValue);
+  },
+
+  useScope(): Scope {
+    // Components set up once; the $effect teardown runs when one is destroyed
+    const scope = createScope();
+    $effect(() => scope.dispose);
+    return scope;
   },
 };
 
@@ -101,8 +108,8 @@ export const useComputed = <T>(
 export const useAsyncSignal = <T>(
   asyncFn: () => Promise<T>,
   initialValue?: T,
-  ...plugins: Plugin<any>[]
-): [() => { data?: T; loading: boolean; error?: Error }, () => void, (value: T) => void] => {
+  ...plugins: Plugin<AsyncState<T>>[]
+): [() => AsyncState<T>, () => void, (value: T) => void] => {
   return usePluginAsyncSignal(svelteAdapter, asyncFn, initialValue, ...plugins);
 };
 
@@ -7,7 +7,16 @@ import { Fetch, fetch } from '../algebras/fetch';
 import { machine, StateMachine } from '../algebras/state';
 import { time } from '../algebras/time';
 import { Effect, effect } from '../core/effect';
+import { createScope, Scope } from '../core/scope';
 import { Signal, signal } from '../core/signal';
+import { SetStore, Store, store, storeVersion } from '../core/store';
+
+// Svelte 5 ownership scope - disposed by $effect teardown
+export function useScope(): Scope {
+  const scope = createScope();
+  $effect(() => scope.dispose);
+  return scope;
+}
 
 // Svelte 5 Signal adapter - uses $state rune
 export function useSignal<T>(initialValue: T): [() => T, (value: T) => void] {
@@ -36,7 +45,7 @@ export function useEffect<T>(
   
   // Sync Svelte state with Signal-Σ effect
   $effect(() => {
-    effectInstance._set(state);
+    effectInstance.set(state);
   });
   
   const getValue = () => state;
@@ -241,6 +250,31 @@ export function useValidatedSignal<T>(
   return [getValue, setValue, getIsValid];
 }
 
+// Svelte 5 Store adapter - uses a $state rune bumped after every update made
+// through the setter
+export function useStore<T extends object>(
+  initialValue: T,
+): [() => Store<T>, SetStore<T>] {
+  const [state, setStore] = store(initialValue);
+  let version = $state(0);
+  $effect(() =>
+    storeVersion(state).subscribe((count) => {
+      version = count;
+    }),
+  );
+
+  const getState = () => {
+    void version;
+    return state;
+  };
+
+  return [getState, setStore];
+}
+
+// Dependency control from the core: read without tracking, or track only
+// explicitly named signals
+export { on, untrack } from '../core/signal';
+
 // Export all hooks for easy importing
 export {
   useSignal as signal,
@@ -0,0 +1,70 @@
+import { Signal } from 'signal-polyfill';
+
+import { computed, signal } from '../core/signal';
+
+import { createBridge } from '.';
+
+const { toTC39, fromTC39 } = createBridge(Signal);
+
+// Resolves once pending microtasks have run
+const settle = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+describe('tc39 bridge', () => {
+  test('proposal computeds depend on resig signals', () => {
+    const count = signal(1);
+    const mirrored = toTC39(count);
+    const tripled = new Signal.Computed(() => mirrored.get() * 3);
+
+    expect(tripled.get()).toBe(3);
+    count.set(2);
+    expect(tripled.get()).toBe(6);
+  });
+
+  test('resig computeds depend on proposal signals', async () => {
+    const state = new Signal.State(1);
+    const mirrored = fromTC39(state);
+    const tripled = computed(() => mirrored.value() * 3);
+    const seen = jest.fn();
+    tripled.subscribe(seen);
+
+    // Reads are current right away, subscribers hear on the next microtask
+    state.set(2);
+    expect(tripled.value()).toBe(6);
+
+    await settle();
+    expect(seen).toHaveBeenCalledWith(6);
+
+    state.set(3);
+    await settle();
+    expect(seen).toHaveBeenLastCalledWith(9);
+  });
+
+  test('cold resig computeds see proposal changes right away', () => {
+    const state = new Signal.State(1);
+    const mirrored = fromTC39(state);
+    const scaled = computed(() => mirrored.value() * 10);
+    expect(scaled.value()).toBe(10);
+
+    state.set(2);
+    expect(mirrored.value()).toBe(2);
+    expect(scaled.value()).toBe(20);
+  });
+
+  test('a round trip keeps both sides in sync', () => {
+    const count = signal(1);
+    const mirrored = toTC39(count);
+    const back = fromTC39(new Signal.Computed(() => mirrored.get() + 1));
+
+    count.set(5);
+    expect(back.value()).toBe(6);
+  });
+
+  test('disposing the signal unwatches the proposal signal', () => {
+    const state = new Signal.State(1);
+    const mirrored = fromTC39(state);
+
+    expect(Signal.subtle.hasSinks(state)).toBe(true);
+    mirrored.dispose();
+    expect(Signal.subtle.hasSinks(state)).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * TC39 Signals Interop - bridges to the `Signal.State` / `Signal.Computed`
+ * primitives of the TC39 proposal, in both directions
+ * The proposal's namespace is passed in (`signal-polyfill` or a native
+ * implementation), so this module has no runtime dependency on it
+ */
+
+import { invalidate, markDirty, nodeOf } from '../core/graph';
+import { microtaskScheduler } from '../core/scheduler';
+import { onDispose, withCleanup } from '../core/scope';
+import { computed, ReadonlySignal, Signal } from '../core/signal';
+
+export interface TC39Computed<A> {
+  get(): A;
+}
+
+export interface TC39State<A> extends TC39Computed<A> {
+  set(value: A): void;
+}
+
+export type TC39Signal<A> = TC39State<A> | TC39Computed<A>;
+
+export interface TC39Watcher {
+  watch(...signals: TC39Signal<unknown>[]): void;
+  unwatch(...signals: TC39Signal<unknown>[]): void;
+}
+
+/**
+ * The parts of the proposal's `Signal` namespace the bridge relies on
+ */
+export interface TC39Namespace {
+  readonly State: new <A>(initial: A) => TC39State<A>;
+  readonly Computed: new <A>(compute: () => A) => TC39Computed<A>;
+  readonly subtle: {
+    readonly Watcher: new (notify: () => void) => TC39Watcher;
+  };
+}
+
+export interface TC39Bridge {
+  // Proposal computed mirroring a signal: proposal computeds reading it
+  // depend on the signal
+  readonly toTC39: <A>(source: ReadonlySignal<A>) => TC39Computed<A>;
+  // Signal following a proposal signal through a `Watcher`: computeds
+  // reading it depend on the proposal signal
+  readonly fromTC39: <A>(source: TC39Signal<A>) => Signal<A>;
+}
+
+/**
+ * Creates the bridge for a proposal implementation, e.g.
+ * `createBridge(Signal)` with `import { Signal } from 'signal-polyfill'`
+ * Each mirror holds a subscription or a watcher, so create it once rather
+ * than inside a computation; it follows its source until the scope it was
+ * created in is disposed, or until `fromTC39`'s signal is disposed
+ */
+export const createBridge = (namespace: TC39Namespace): TC39Bridge => ({
+  toTC39: <A>(source: ReadonlySignal<A>): TC39Computed<A> => {
+    let version = 0;
+    const changed = new namespace.State(version);
+    // Errors bump the version too, so the mirror rethrows them
+    const bump = () => changed.set(++version);
+    onDispose(source.subscribe(bump, bump));
+
+    return new namespace.Computed(() => {
+      changed.get();
+      return source.peek();
+    });
+  },
+
+  fromTC39: <A>(source: TC39Signal<A>): Signal<A> => {
+    const mirror = computed(() => source.get());
+    const node = nodeOf(mirror.value)!;
+    let pending = false;
+
+    // The notify callback may not read signals: it only marks the mirror
+    // stale, so reads recompute it, and leaves notifying its subscribers
+    // and re-arming the watcher to a microtask
+    const watcher: TC39Watcher = new namespace.subtle.Watcher(() => {
+      markDirty(node);
+      if (pending) {
+        return;
+      }
+      pending = true;
+      microtaskScheduler.schedule(() => {
+        pending = false;
+        watcher.watch();
+        invalidate(node);
+      });
+    });
+    watcher.watch(source);
+
+    return withCleanup(mirror, () => watcher.unwatch(source));
+  },
+});
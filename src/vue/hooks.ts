@@ -9,7 +9,16 @@ import { Fetch, fetch } from '../algebras/fetch';
 import { machine, StateMachine } from '../algebras/state';
 import { time } from '../algebras/time';
 import { Effect, effect } from '../core/effect';
+import { createScope, Scope } from '../core/scope';
 import { Signal, signal } from '../core/signal';
+import { SetStore, Store, store, storeVersion } from '../core/store';
+
+// Vue ownership scope - disposed when the component unmounts
+export function useScope(): Scope {
+  const scope = createScope();
+  onUnmounted(scope.dispose);
+  return scope;
+}
 
 // Vue Signal adapter - uses ref for reactivity
 export function useSignal<T>(initialValue: T): [() => T, (value: T) => void] {
@@ -38,7 +47,7 @@ export function useEffect<T>(
   
   // Sync Vue ref with Signal-Σ effect
   watchEffect(() => {
-    effectInstance._set(state.value);
+    effectInstance.set(state.value);
   });
   
   const getValue = () => state.value;
@@ -249,6 +258,31 @@ export function useValidatedSignal<T>(
   return [getValue, setValue, getIsValid];
 }
 
+// Vue Store adapter - uses a ref bumped after every update made through the
+// setter
+export function useStore<T extends object>(
+  initialValue: T,
+): [() => Store<T>, SetStore<T>] {
+  const [state, setStore] = store(initialValue);
+  const version = ref(0);
+  onUnmounted(
+    storeVersion(state).subscribe((count) => {
+      version.value = count;
+    }),
+  );
+
+  const getState = () => {
+    void version.value;
+    return state;
+  };
+
+  return [getState, setStore];
+}
+
+// Dependency control from the core: read without tracking, or track only
+// explicitly named signals
+export { on, untrack } from '../core/signal';
+
 // Export all hooks for easy importing
 export {
   useSignal as signal,